@@ -0,0 +1,18 @@
+import express from "express";
+import { getFleetAnalytics } from "../application/analytics";
+import { getFleetImpact } from "../application/impact";
+import { authenticationMiddleware } from "./middlewares/authentication-middleware";
+import { authorizationMiddleware } from "./middlewares/authorization-middleware";
+
+const analyticsRouter = express.Router();
+
+// Admin endpoints
+analyticsRouter
+  .route("/fleet")
+  .get(authenticationMiddleware, authorizationMiddleware, getFleetAnalytics);
+
+analyticsRouter
+  .route("/impact")
+  .get(authenticationMiddleware, authorizationMiddleware, getFleetImpact);
+
+export default analyticsRouter;
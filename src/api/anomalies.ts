@@ -1,13 +1,25 @@
 import express from "express";
 import {
+  exportAllAnomalies,
+  exportAnomaliesForUser,
   getAnomaliesForUser,
   getAllAnomalies,
   getAnomalyStatistics,
-  resolveAnomaly,
+  rescanAllAnomalies,
   runAnomalyDetectionForUser
   
 
 } from "../application/anomalies";
+import {
+  addAnomalyComment,
+  assignAnomaly,
+  getAnomalyById,
+  getFalsePositives,
+  resolveAnomaly,
+  updateAnomalyStatus,
+} from "../application/anomaly-lifecycle";
+import { getAnomalyTrendsForUser, getFleetAnomalyTrends } from "../application/anomaly-trends";
+import { backtestAnomalies } from "../application/anomaly-backtest";
 import { authenticationMiddleware } from "./middlewares/authentication-middleware";
 import { authorizationMiddleware } from "./middlewares/authorization-middleware";
 
@@ -18,25 +30,67 @@ anomaliesRouter
   .route("/me")
   .get(authenticationMiddleware, getAnomaliesForUser);
 
+anomaliesRouter
+  .route("/me/export")
+  .get(authenticationMiddleware, exportAnomaliesForUser);
+
 anomaliesRouter
   .route("/me/statistics")
   .get(authenticationMiddleware, getAnomalyStatistics);
 
+anomaliesRouter
+  .route("/me/trends")
+  .get(authenticationMiddleware, getAnomalyTrendsForUser);
+
 anomaliesRouter
   .route("/me/run-detection")
   .post(authenticationMiddleware, runAnomalyDetectionForUser);
 
+// Admin endpoints
+anomaliesRouter
+  .route("/")
+  .get(authenticationMiddleware, authorizationMiddleware, getAllAnomalies);
+
 anomaliesRouter
-  .route("/:id/resolve")
-  .patch(authenticationMiddleware, resolveAnomaly);
+  .route("/export")
+  .get(authenticationMiddleware, authorizationMiddleware, exportAllAnomalies);
+
+anomaliesRouter
+  .route("/trends")
+  .get(authenticationMiddleware, authorizationMiddleware, getFleetAnomalyTrends);
+
+anomaliesRouter
+  .route("/rescan")
+  .post(authenticationMiddleware, authorizationMiddleware, rescanAllAnomalies);
+
+anomaliesRouter
+  .route("/backtest")
+  .post(authenticationMiddleware, authorizationMiddleware, backtestAnomalies);
+
+anomaliesRouter
+  .route("/false-positives")
+  .get(authenticationMiddleware, authorizationMiddleware, getFalsePositives);
+
+// Owner or staff endpoints - registered last so "/:id" does not shadow the routes above
+anomaliesRouter
+  .route("/:id")
+  .get(authenticationMiddleware, getAnomalyById);
+
+anomaliesRouter
+  .route("/:id/status")
+  .patch(authenticationMiddleware, updateAnomalyStatus);
+
 anomaliesRouter
   .route("/:id/resolve")
   .patch(authenticationMiddleware, resolveAnomaly);
 
-// Admin endpoints
 anomaliesRouter
-  .route("/")
-  .get(authenticationMiddleware, authorizationMiddleware, getAllAnomalies);
+  .route("/:id/assign")
+  .patch(authenticationMiddleware, assignAnomaly);
+
+anomaliesRouter
+  .route("/:id/comments")
+  .post(authenticationMiddleware, addAnomalyComment);
 
 export default anomaliesRouter;
 
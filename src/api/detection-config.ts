@@ -0,0 +1,26 @@
+import express from "express";
+import {
+  getFleetDetectionConfig,
+  getSolarUnitDetectionConfig,
+  resetSolarUnitDetectionConfig,
+  updateFleetDetectionConfig,
+  updateSolarUnitDetectionConfig,
+} from "../application/detection-config";
+import { authenticationMiddleware } from "./middlewares/authentication-middleware";
+import { authorizationMiddleware } from "./middlewares/authorization-middleware";
+
+const detectionConfigRouter = express.Router();
+
+// Admin endpoints
+detectionConfigRouter
+  .route("/")
+  .get(authenticationMiddleware, authorizationMiddleware, getFleetDetectionConfig)
+  .put(authenticationMiddleware, authorizationMiddleware, updateFleetDetectionConfig);
+
+detectionConfigRouter
+  .route("/solar-unit/:id")
+  .get(authenticationMiddleware, authorizationMiddleware, getSolarUnitDetectionConfig)
+  .put(authenticationMiddleware, authorizationMiddleware, updateSolarUnitDetectionConfig)
+  .delete(authenticationMiddleware, authorizationMiddleware, resetSolarUnitDetectionConfig);
+
+export default detectionConfigRouter;
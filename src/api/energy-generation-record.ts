@@ -1,6 +1,20 @@
 import express from "express";
-import { getAllEnergyGenerationRecordsBySolarUnitId, getCapacityFactorBySolarUnitId } from "../application/energy-generation-record";
+import {
+  exportAllEnergyGenerationRecords,
+  exportEnergyGenerationRecordsBySolarUnitId,
+  getAllEnergyGenerationRecordsBySolarUnitId,
+  getCapacityFactorBySolarUnitId,
+} from "../application/energy-generation-record";
+import { getForecastBySolarUnitId } from "../application/forecast";
+import { getImpactBySolarUnitId } from "../application/impact";
+import { getCompletenessBySolarUnitId } from "../application/completeness";
+import {
+  correctEnergyGenerationRecord,
+  getCorrectionsBySolarUnitId,
+  getEnergyGenerationRecordCorrections,
+} from "../application/energy-record-correction";
 import { authenticationMiddleware } from "./middlewares/authentication-middleware";
+import { authorizationMiddleware } from "./middlewares/authorization-middleware";
 //import { detectFromReading } from "../application/anomaly-detection";
 
 const energyGenerationRecordRouter = express.Router();
@@ -12,5 +26,35 @@ energyGenerationRecordRouter
 energyGenerationRecordRouter
   .route("/solar-unit/:id/capacity-factor")
   .get(authenticationMiddleware, getCapacityFactorBySolarUnitId);
+
+energyGenerationRecordRouter
+  .route("/solar-unit/:id/forecast")
+  .get(authenticationMiddleware, getForecastBySolarUnitId);
+
+energyGenerationRecordRouter
+  .route("/solar-unit/:id/impact")
+  .get(authenticationMiddleware, getImpactBySolarUnitId);
+
+energyGenerationRecordRouter
+  .route("/solar-unit/:id/completeness")
+  .get(authenticationMiddleware, getCompletenessBySolarUnitId);
+
+energyGenerationRecordRouter
+  .route("/solar-unit/:id/export")
+  .get(authenticationMiddleware, exportEnergyGenerationRecordsBySolarUnitId);
+
+// Admin endpoints
+energyGenerationRecordRouter
+  .route("/export")
+  .get(authenticationMiddleware, authorizationMiddleware, exportAllEnergyGenerationRecords);
+
+energyGenerationRecordRouter
+  .route("/solar-unit/:id/corrections")
+  .get(authenticationMiddleware, authorizationMiddleware, getCorrectionsBySolarUnitId);
+
+energyGenerationRecordRouter
+  .route("/:recordId/corrections")
+  .get(authenticationMiddleware, authorizationMiddleware, getEnergyGenerationRecordCorrections)
+  .post(authenticationMiddleware, authorizationMiddleware, correctEnergyGenerationRecord);
  
 export default energyGenerationRecordRouter;
\ No newline at end of file
@@ -1,5 +1,7 @@
 import express from "express";
 import {
+  exportAllInvoices,
+  exportInvoicesForUser,
   getInvoicesForUser,
   getInvoiceById,
   getAllInvoices,
@@ -12,6 +14,11 @@ const invoicesRouter = express.Router();
 // User routes - get their own invoices
 invoicesRouter.route("/").get(authenticationMiddleware, getInvoicesForUser);
 
+// Must be registered before "/:id"
+invoicesRouter
+  .route("/export")
+  .get(authenticationMiddleware, exportInvoicesForUser);
+
 invoicesRouter
   .route("/:id")
   .get(authenticationMiddleware, getInvoiceById);
@@ -21,5 +28,9 @@ invoicesRouter
   .route("/admin/all")
   .get(authenticationMiddleware, authorizationMiddleware, getAllInvoices);
 
+invoicesRouter
+  .route("/admin/all/export")
+  .get(authenticationMiddleware, authorizationMiddleware, exportAllInvoices);
+
 export default invoicesRouter;
 
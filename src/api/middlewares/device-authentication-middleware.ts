@@ -0,0 +1,28 @@
+import { NextFunction, Request, Response } from "express";
+import { UnauthorizedError } from "../../domain/errors/error";
+import { SolarUnit } from "../../infrastructure/entities/SolarUnit";
+import { verifyDeviceApiKey } from "../../application/telemetry";
+
+/**
+ * Authenticates a device by its serial number and per-unit API key
+ * Expects the X-Serial-Number and X-API-Key headers; the unit is exposed on res.locals.solarUnit
+ */
+export const deviceAuthenticationMiddleware = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const serialNumber = req.header("x-serial-number");
+  const apiKey = req.header("x-api-key");
+  if (!serialNumber || !apiKey) {
+    throw new UnauthorizedError("Unauthorized");
+  }
+
+  const solarUnit = await SolarUnit.findOne({ serialNumber }).select("+apiKeyHash");
+  if (!solarUnit || !solarUnit.apiKeyHash || !verifyDeviceApiKey(apiKey, solarUnit.apiKeyHash)) {
+    throw new UnauthorizedError("Unauthorized");
+  }
+
+  res.locals.solarUnit = solarUnit;
+  next();
+};
@@ -7,6 +7,11 @@ export const globalErrorHandler = (
   next: NextFunction
 ) => {
   console.error(err);
+  // Streaming responses (e.g. exports) may fail after the headers were sent
+  if (res.headersSent) {
+    return next(err);
+  }
+
   if (err.name === "NotFoundError") {
     return res.status(404).json({ message: err.message });
   }
@@ -18,6 +23,14 @@ export const globalErrorHandler = (
   if (err.name === "UnauthorizedError") {
     return res.status(401).json({ message: err.message });
   }
+
+  if (err.name === "ForbiddenError") {
+    return res.status(403).json({ message: err.message });
+  }
+
+  if (err.name === "ConflictError") {
+    return res.status(409).json({ message: err.message });
+  }
   // Handle other errors
   res.status(500).json({ message: "Internal server error" });
 };
\ No newline at end of file
@@ -3,22 +3,11 @@ import { getAuth } from "@clerk/express";
 import { NotFoundError } from "../../../domain/errors/error";
 import { User } from "../../../infrastructure/entities/User";
 import { SolarUnit } from "../../../infrastructure/entities/SolarUnit";
-import { EnergyGenerationRecord } from "../../../infrastructure/entities/EnergyGenerationRecord";
-import { detectAllAnomalies } from "../../../application/anomaly-detection";
-import { z } from "zod";
-
-export const DataAPIEnergyGenerationRecordDto = z.object({
-    _id: z.string(),
-    serialNumber: z.string(),
-    energyGenerated: z.number(),
-    timestamp: z.string(),
-    intervalHours: z.number(),
-    __v: z.number(),
-});
+import { runSync } from "../../../application/sync";
 
 /**
  * Synchronizes energy generation records from the data API
- * Fetches latest records and merges new data with existing records
+ * Syncs the user's solar unit and runs anomaly detection when new records arrive
  */
 export const syncMiddleware = async (
   req: Request,
@@ -47,55 +36,15 @@ export const syncMiddleware = async (
       }
     }
 
-    // Fetch latest records from data API
-    //const dataAPIResponse = await fetch(
-    //  `http://localhost:8001/api/energy-generation-records/solar-unit/${solarUnit.serialNumber}`
-    //);
-    const dataAPIResponse = await fetch(
-      `${process.env.API_URL}/api/energy-generation-records/solar-unit/${solarUnit.serialNumber}`
-    );
-    
-    if (!dataAPIResponse.ok) {
-      throw new Error("Failed to fetch energy generation records from data API");
-    }
-
-    const latestEnergyGenerationRecords = DataAPIEnergyGenerationRecordDto.array().parse(
-      await dataAPIResponse.json()
-    );
-
-    // Get latest synced timestamp to only fetch new data
-    const lastSyncedRecord = await EnergyGenerationRecord.findOne({
-      solarUnitId: solarUnit._id,
-    }).sort({ timestamp: -1 });
-
-    // Filter records that are new (not yet in database)
-    const newRecords = latestEnergyGenerationRecords.filter((apiRecord) => {
-      if (!lastSyncedRecord) return true; // First sync, add all
-      return new Date(apiRecord.timestamp) > lastSyncedRecord.timestamp;
+    await runSync([solarUnit], {
+      trigger: "USER",
+      triggeredBy: auth.userId,
+      detectAnomalies: true,
     });
 
-    if (newRecords.length > 0) {
-      // Transform API records to match schema
-      const recordsToInsert = newRecords.map((record) => ({
-        solarUnitId: solarUnit._id,
-        energyGenerated: record.energyGenerated,
-        timestamp: new Date(record.timestamp),
-        intervalHours: record.intervalHours,
-      }));
-
-      await EnergyGenerationRecord.insertMany(recordsToInsert);
-      console.log(`Synced ${recordsToInsert.length} new energy generation records`);
-
-      // After syncing new records, run anomaly detection for this solar unit
-      await detectAllAnomalies(solarUnit._id.toString());
-      console.log(`Anomaly detection completed for solar unit ${solarUnit.serialNumber}`);
-    } else {
-      console.log("No new records to sync");
-    }
-
     next();
   } catch (error) {
     console.error("Sync middleware error:", error);
     next();
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,33 @@
+import express from "express";
+import {
+  getAllNotificationDeliveries,
+  getMyNotificationDeliveries,
+  getNotificationPreferences,
+  rotateWebhookSecret,
+  sendTestNotification,
+  updateNotificationPreferences,
+} from "../application/notifications";
+import { authenticationMiddleware } from "./middlewares/authentication-middleware";
+import { authorizationMiddleware } from "./middlewares/authorization-middleware";
+
+const notificationsRouter = express.Router();
+
+notificationsRouter
+  .route("/preferences")
+  .get(authenticationMiddleware, getNotificationPreferences)
+  .put(authenticationMiddleware, updateNotificationPreferences);
+
+notificationsRouter
+  .route("/preferences/webhook-secret")
+  .post(authenticationMiddleware, rotateWebhookSecret);
+
+notificationsRouter.route("/test").post(authenticationMiddleware, sendTestNotification);
+
+notificationsRouter.route("/deliveries").get(authenticationMiddleware, getMyNotificationDeliveries);
+
+// Admin endpoints
+notificationsRouter
+  .route("/admin/deliveries")
+  .get(authenticationMiddleware, authorizationMiddleware, getAllNotificationDeliveries);
+
+export default notificationsRouter;
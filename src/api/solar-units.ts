@@ -12,6 +12,9 @@ import {
 import { authenticationMiddleware } from "./middlewares/authentication-middleware";
 import { authorizationMiddleware } from "./middlewares/authorization-middleware";
 import { syncMiddleware } from "./middlewares/sync/sync.middleware";
+import { getDegradationBySolarUnitId, getDegradationForUser } from "../application/degradation";
+import { generateDeviceApiKey } from "../application/telemetry";
+import { backfillSolarUnit } from "../application/backfill";
 
 const solarUnitRouter = express.Router();
 
@@ -19,12 +22,26 @@ solarUnitRouter.route("/").get(authenticationMiddleware,authorizationMiddleware,
 
 solarUnitRouter.route("/me").get(authenticationMiddleware,syncMiddleware, getSolarUnitforUser);
 
+solarUnitRouter.route("/me/degradation").get(authenticationMiddleware, getDegradationForUser);
+
 solarUnitRouter
   .route("/:id")
   .get(authenticationMiddleware,authorizationMiddleware, getSolarUnitById)
   .put(authenticationMiddleware,authorizationMiddleware,updateSolarUnit)
   .delete(authenticationMiddleware,authorizationMiddleware,deleteSolarUnit);
 
+solarUnitRouter
+  .route("/:id/degradation")
+  .get(authenticationMiddleware, authorizationMiddleware, getDegradationBySolarUnitId);
+
+solarUnitRouter
+  .route("/:id/api-key")
+  .post(authenticationMiddleware, authorizationMiddleware, generateDeviceApiKey);
+
+solarUnitRouter
+  .route("/:id/backfill")
+  .post(authenticationMiddleware, authorizationMiddleware, backfillSolarUnit);
+
 //solarUnitRouter.route("/users/:clerkUserId").get(getSolarUnitsByClerkUserId);
  
 export default solarUnitRouter;
\ No newline at end of file
@@ -0,0 +1,22 @@
+import express from "express";
+import { getSyncFreshness, getSyncRunById, getSyncRuns, triggerSync } from "../application/sync-runs";
+import { authenticationMiddleware } from "./middlewares/authentication-middleware";
+import { authorizationMiddleware } from "./middlewares/authorization-middleware";
+
+const syncRouter = express.Router();
+
+// Admin endpoints
+syncRouter
+  .route("/runs")
+  .get(authenticationMiddleware, authorizationMiddleware, getSyncRuns)
+  .post(authenticationMiddleware, authorizationMiddleware, triggerSync);
+
+syncRouter
+  .route("/runs/:id")
+  .get(authenticationMiddleware, authorizationMiddleware, getSyncRunById);
+
+syncRouter
+  .route("/freshness")
+  .get(authenticationMiddleware, authorizationMiddleware, getSyncFreshness);
+
+export default syncRouter;
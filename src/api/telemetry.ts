@@ -0,0 +1,12 @@
+import express from "express";
+import { ingestTelemetryReadings } from "../application/telemetry";
+import { deviceAuthenticationMiddleware } from "./middlewares/device-authentication-middleware";
+
+const telemetryRouter = express.Router();
+
+// Device endpoints - authenticated by per-unit API key, not Clerk
+telemetryRouter
+  .route("/readings")
+  .post(deviceAuthenticationMiddleware, ingestTelemetryReadings);
+
+export default telemetryRouter;
@@ -0,0 +1,52 @@
+import { Request } from "express";
+import { getAuth } from "@clerk/express";
+import { ForbiddenError, NotFoundError, UnauthorizedError } from "../domain/errors/error";
+import { UserPublicMetadata } from "../domain/types";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { User } from "../infrastructure/entities/User";
+
+/**
+ * Whether a stored user is staff (admin or staff role)
+ * Background work without a session (e.g. notifications) relies on this alone
+ */
+export const isStaffUser = (user: { role?: string | null }) => !!user.role;
+
+/**
+ * The signed-in user and whether they are staff (admin or staff role)
+ */
+export const getActor = async (req: Request) => {
+  const auth = getAuth(req);
+  const user = await User.findOne({ clerkUserId: auth.userId });
+  if (!user || !auth.userId) {
+    throw new UnauthorizedError("Unauthorized");
+  }
+
+  // The session's role is what authorizationMiddleware checks; the stored role is kept
+  // in step with it so checks made without a session give the same answer
+  const publicMetadata = auth.sessionClaims?.metadata as UserPublicMetadata | undefined;
+  if (publicMetadata && (publicMetadata.role || undefined) !== (user.role || undefined)) {
+    user.role = publicMetadata.role;
+    await user.save();
+  }
+
+  return { user, clerkUserId: auth.userId, isStaff: isStaffUser(user) };
+};
+
+export type Actor = Awaited<ReturnType<typeof getActor>>;
+
+
+/**
+ * Loads a solar unit the actor may read: staff can read any, users only their own
+ */
+export const findSolarUnitForActor = async (id: string, actor: Actor) => {
+  const solarUnit = await SolarUnit.findById(id);
+  if (!solarUnit) {
+    throw new NotFoundError("Solar unit not found");
+  }
+
+  if (!actor.isStaff && (!solarUnit.userId || !solarUnit.userId.equals(actor.user._id))) {
+    throw new ForbiddenError("Forbidden");
+  }
+
+  return solarUnit;
+};
@@ -0,0 +1,99 @@
+import { NextFunction, Request, Response } from "express";
+import { GetFleetAnalyticsQueryDto } from "../domain/dtos/analytics";
+import { ValidationError } from "../domain/errors/error";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { calculateCapacityFactor, INCLUDED_RECORDS_FILTER } from "./energy-generation-record";
+
+/**
+ * Get fleet-wide analytics for a period (admin only)
+ * Returns total generation, per-unit capacity factor and specific yield,
+ * performer rankings, open anomaly counts and units with stale data
+ */
+export const getFleetAnalytics = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = GetFleetAnalyticsQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+
+    const { days, top, staleAfterHours } = results.data;
+
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+    const staleThreshold = new Date(endDate.getTime() - staleAfterHours * 60 * 60 * 1000);
+
+    const [solarUnits, energyByUnit, lastRecordByUnit, openAnomaliesByUnit] = await Promise.all([
+      SolarUnit.find().populate("userId", "firstName lastName email"),
+      EnergyGenerationRecord.aggregate([
+        { $match: { timestamp: { $gte: startDate, $lte: endDate }, ...INCLUDED_RECORDS_FILTER } },
+        { $group: { _id: "$solarUnitId", totalEnergy: { $sum: "$energyGenerated" } } },
+      ]),
+      // Sorted like the (solarUnitId, timestamp) index, walked backwards, so each unit's
+      // latest record is read from the index instead of scanning every record
+      EnergyGenerationRecord.aggregate([
+        { $sort: { solarUnitId: -1, timestamp: -1 } },
+        { $group: { _id: "$solarUnitId", lastTimestamp: { $first: "$timestamp" } } },
+      ]),
+      Anomaly.aggregate([
+        { $match: { resolved: false } },
+        { $group: { _id: "$solarUnitId", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    const energyMap = new Map(energyByUnit.map((e) => [e._id.toString(), e.totalEnergy as number]));
+    const lastRecordMap = new Map(lastRecordByUnit.map((e) => [e._id.toString(), e.lastTimestamp as Date]));
+    const openAnomalyMap = new Map(openAnomaliesByUnit.map((e) => [e._id.toString(), e.count as number]));
+
+    const units = solarUnits.map((solarUnit) => {
+      const id = solarUnit._id.toString();
+      const energyGenerated = energyMap.get(id) || 0;
+      const lastRecordAt = lastRecordMap.get(id) || null;
+      const capacityInKW = solarUnit.capacity / 1000; // Convert from W to kW
+
+      return {
+        solarUnitId: id,
+        serialNumber: solarUnit.serialNumber,
+        status: solarUnit.status,
+        user: solarUnit.userId,
+        capacity: solarUnit.capacity,
+        energyGenerated: parseFloat(energyGenerated.toFixed(2)),
+        capacityFactor: parseFloat(
+          calculateCapacityFactor(energyGenerated, solarUnit.capacity, days).toFixed(2)
+        ),
+        specificYield: capacityInKW > 0 ? parseFloat((energyGenerated / capacityInKW).toFixed(2)) : 0, // kWh/kWp
+        openAnomalies: openAnomalyMap.get(id) || 0,
+        lastRecordAt,
+        isStale: !lastRecordAt || lastRecordAt < staleThreshold,
+      };
+    });
+
+    // Rank only active units - units in maintenance would always be bottom performers
+    const ranked = units
+      .filter((unit) => unit.status === "ACTIVE" && unit.capacity > 0)
+      .sort((a, b) => b.specificYield - a.specificYield);
+
+    const totalEnergyGenerated = units.reduce((sum, unit) => sum + unit.energyGenerated, 0);
+
+    res.status(200).json({
+      periodDays: days,
+      startDate,
+      endDate,
+      totalEnergyGenerated: parseFloat(totalEnergyGenerated.toFixed(2)),
+      unitCount: units.length,
+      units,
+      topPerformers: ranked.slice(0, top),
+      // Small fleets would otherwise list the same units as top and bottom performers
+      bottomPerformers: ranked.slice(Math.max(top, ranked.length - top)).reverse(),
+      staleUnits: units.filter((unit) => unit.isStale),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,10 +1,59 @@
 import { Anomaly } from "../infrastructure/entities/Anomaly";
 import { NextFunction, Request, Response } from "express";
-import { NotFoundError } from "../domain/errors/error";
+import { NotFoundError, ValidationError } from "../domain/errors/error";
 import { getAuth } from "@clerk/express";
 import { User } from "../infrastructure/entities/User";
 import { SolarUnit } from "../infrastructure/entities/SolarUnit";
-import { detectAllAnomalies } from "./anomaly-detection";
+import { detectNewAnomalies, rescanAnomalies } from "./anomaly-detection";
+import { getAnomalyTypeDisplayName, getAnomalyTypes } from "./detector-registry";
+import { ExportColumn, parseExportFormat, streamExport } from "./export";
+import { RescanAnomaliesDto } from "../domain/dtos/anomaly";
+import mongoose from "mongoose";
+
+/**
+ * Build a query from the anomaly list filters (type, severity, status, resolved, solarUnitId, assignedTo)
+ */
+function buildAnomalyFilters(params: Request["query"]): any {
+  const { type, severity, status, resolved, solarUnitId, assignedTo } = params;
+
+  const query: any = {};
+
+  if (type) {
+    query.anomalyType = type;
+  }
+  if (severity) {
+    query.severity = severity;
+  }
+  if (resolved !== undefined) {
+    // Handle both string "true"/"false" and boolean true/false
+    query.resolved = String(resolved) === "true";
+  }
+  if (status) {
+    query.status = status;
+  }
+  if (solarUnitId) {
+    query.solarUnitId = solarUnitId;
+  }
+  if (assignedTo) {
+    query.assignedTo = assignedTo;
+  }
+
+  return query;
+}
+
+const anomalyExportColumns: ExportColumn<any>[] = [
+  { header: "Serial Number", value: (anomaly) => anomaly.solarUnitId?.serialNumber },
+  { header: "Type", value: (anomaly) => getAnomalyTypeDisplayName(anomaly.anomalyType) },
+  { header: "Severity", value: (anomaly) => anomaly.severity },
+  { header: "Description", value: (anomaly) => anomaly.description },
+  { header: "Detected At", value: (anomaly) => anomaly.detectionTimestamp },
+  { header: "Affected From", value: (anomaly) => anomaly.affectedStartDate },
+  { header: "Affected To", value: (anomaly) => anomaly.affectedEndDate },
+  { header: "Status", value: (anomaly) => anomaly.status },
+  { header: "Resolved", value: (anomaly) => anomaly.resolved },
+  { header: "Resolved At", value: (anomaly) => anomaly.resolvedAt },
+];
+
 /**
  * Get anomalies for a user's solar unit(s)
  */
@@ -26,22 +75,10 @@ export const getAnomaliesForUser = async (
     const solarUnits = await SolarUnit.find({ userId: user._id });
     const solarUnitIds = solarUnits.map(su => su._id);
 
-    // Query parameters
-    const { type, severity, resolved } = req.query;
-
-    const query: any = { solarUnitId: { $in: solarUnitIds } };
-    
-    if (type) {
-      query.anomalyType = type;
-    }
-    if (severity) {
-      query.severity = severity;
-    }
-    if (resolved !== undefined) {
-      // Handle both string "true"/"false" and boolean true/false
-      const resolvedStr = String(resolved);
-      query.resolved = resolvedStr === "true";
-    }
+    const query: any = {
+      ...buildAnomalyFilters(req.query),
+      solarUnitId: { $in: solarUnitIds },
+    };
 
     const anomalies = await Anomaly.find(query)
       .populate("solarUnitId", "serialNumber capacity")
@@ -62,22 +99,7 @@ export const getAllAnomalies = async (
   next: NextFunction
 ) => {
   try {
-    const { type, severity, resolved, solarUnitId } = req.query;
-
-    const query: any = {};
-    
-    if (type) {
-      query.anomalyType = type;
-    }
-    if (severity) {
-      query.severity = severity;
-    }
-    if (resolved !== undefined) {
-      query.resolved = resolved === "true";
-    }
-    if (solarUnitId) {
-      query.solarUnitId = solarUnitId;
-    }
+    const query = buildAnomalyFilters(req.query);
 
     const anomalies = await Anomaly.find(query)
       .populate("solarUnitId", "serialNumber capacity")
@@ -89,6 +111,79 @@ export const getAllAnomalies = async (
   }
 };
 
+/**
+ * Export anomalies for a user's solar unit(s) as CSV or XLSX
+ */
+export const exportAnomaliesForUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const format = parseExportFormat(req.query);
+    const auth = getAuth(req);
+    const clerkUserId = auth.userId;
+
+    const user = await User.findOne({ clerkUserId });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const solarUnits = await SolarUnit.find({ userId: user._id });
+    const solarUnitIds = solarUnits.map(su => su._id);
+
+    const query: any = {
+      ...buildAnomalyFilters(req.query),
+      solarUnitId: { $in: solarUnitIds },
+    };
+
+    const cursor = Anomaly.find(query)
+      .populate("solarUnitId", "serialNumber")
+      .sort({ detectionTimestamp: -1 })
+      .lean()
+      .cursor();
+
+    await streamExport(res, {
+      format,
+      filename: "anomalies",
+      sheetName: "Anomalies",
+      columns: anomalyExportColumns,
+      rows: cursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Export all anomalies (admin only)
+ */
+export const exportAllAnomalies = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const format = parseExportFormat(req.query);
+
+    const cursor = Anomaly.find(buildAnomalyFilters(req.query))
+      .populate("solarUnitId", "serialNumber")
+      .sort({ detectionTimestamp: -1 })
+      .lean()
+      .cursor();
+
+    await streamExport(res, {
+      format,
+      filename: "anomalies-fleet",
+      sheetName: "Anomalies",
+      columns: anomalyExportColumns,
+      rows: cursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get anomaly statistics (for pie chart)
  */
@@ -122,73 +217,55 @@ export const getAnomalyStatistics = async (
     // Get all anomalies
     const anomalies = await Anomaly.find(query);
 
-    // Calculate statistics by type
+    // Calculate statistics by type, listing every registered type even without anomalies
     const statsByType: Record<string, number> = {};
+    getAnomalyTypes().forEach((type) => {
+      statsByType[type] = 0;
+    });
     let total = 0;
 
+    // Anomalies closed by detection once output recovered, reported apart from manual resolutions
+    const autoResolvedByType: Record<string, number> = {};
+    let autoResolved = 0;
+    let manuallyResolved = 0;
+
     anomalies.forEach((anomaly) => {
       const type = anomaly.anomalyType;
       statsByType[type] = (statsByType[type] || 0) + 1;
       total++;
+
+      if (anomaly.resolvedBy === "system") {
+        autoResolvedByType[type] = (autoResolvedByType[type] || 0) + 1;
+        autoResolved++;
+      } else if (anomaly.resolved) {
+        manuallyResolved++;
+      }
     });
 
     // Convert to percentage and format for pie chart
-    const pieChartData = Object.entries(statsByType).map(([type, count]) => ({
-      name: getAnomalyTypeDisplayName(type),
-      value: count,
-      percentage: total > 0 ? ((count / total) * 100).toFixed(1) : "0",
-    }));
+    const pieChartData = Object.entries(statsByType)
+      .filter(([, count]) => count > 0)
+      .map(([type, count]) => ({
+        name: getAnomalyTypeDisplayName(type),
+        value: count,
+        percentage: total > 0 ? ((count / total) * 100).toFixed(1) : "0",
+      }));
 
     res.status(200).json({
       total,
       byType: statsByType,
       pieChartData,
+      resolution: {
+        autoResolved,
+        manuallyResolved,
+        autoResolvedByType,
+      },
     });
   } catch (error) {
     next(error);
   }
 };
 
-/**
- * Resolve an anomaly
- */
-export const resolveAnomaly = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const { id } = req.params;
-
-    const anomaly = await Anomaly.findById(id);
-    if (!anomaly) {
-      throw new NotFoundError("Anomaly not found");
-    }
-
-    anomaly.resolved = true;
-    anomaly.resolvedAt = new Date();
-    await anomaly.save();
-
-    res.status(200).json(anomaly);
-  } catch (error) {
-    next(error);
-  }
-};
-
-/**
- * Helper function to get display names for anomaly types
- */
-function getAnomalyTypeDisplayName(type: string): string {
-  const displayNames: Record<string, string> = {
-    MECHANICAL: "Mechanical",
-    TEMPERATURE: "Temperature",
-    SHADING: "Shading",
-    SENSOR_ERROR: "Sensor Error",
-   // BELOW_AVERAGE: "Below Average",
-  };
-  return displayNames[type] || type;
-}
-
 export const runAnomalyDetectionForUser = async (
   req: Request,
   res: Response,
@@ -211,7 +288,7 @@ export const runAnomalyDetectionForUser = async (
     let totalCreated = 0;
 
     for (const su of solarUnits) {
-      await detectAllAnomalies(su._id.toString());
+      await detectNewAnomalies(su._id.toString());
       // optional: count how many anomalies exist now for this unit
       const count = await Anomaly.countDocuments({ solarUnitId: su._id });
       totalCreated += count;
@@ -225,4 +302,50 @@ export const runAnomalyDetectionForUser = async (
   } catch (error) {
     next(error);
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Re-run detection over the full history of one or all solar units (admin only)
+ * Regular runs only analyze data newer than each unit's watermark
+ */
+export const rescanAllAnomalies = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = RescanAnomaliesDto.safeParse(req.body || {});
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { solarUnitId } = results.data;
+
+    let solarUnits;
+    if (solarUnitId) {
+      if (!mongoose.isValidObjectId(solarUnitId)) {
+        throw new ValidationError("Invalid solar unit id");
+      }
+      const solarUnit = await SolarUnit.findById(solarUnitId);
+      if (!solarUnit) {
+        throw new NotFoundError("Solar unit not found");
+      }
+      solarUnits = [solarUnit];
+    } else {
+      solarUnits = await SolarUnit.find();
+    }
+
+    res.status(202).json({
+      message: "Full anomaly rescan started",
+      solarUnits: solarUnits.map((su) => su._id),
+    });
+
+    (async () => {
+      for (const solarUnit of solarUnits) {
+        await rescanAnomalies(solarUnit._id.toString());
+      }
+      console.log(`Full anomaly rescan completed for ${solarUnits.length} solar units`);
+    })().catch((error) => console.error("Full anomaly rescan failed:", error));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,236 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { BacktestAnomaliesDto } from "../domain/dtos/anomaly";
+import { NotFoundError, ValidationError } from "../domain/errors/error";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { DetectedAnomaly, getDetectionLookbackDays, runDetectors } from "./anomaly-detection";
+import { getDetectionConfig, mergeDetectionThresholds } from "./detection-config";
+import { getDetector, getDetectors, isDetectorEnabled } from "./detector-registry";
+import { SEVERITY_RANK } from "./notifications";
+
+/**
+ * Anomaly Detection Backtest
+ *
+ * Runs detectors over a unit's history with candidate thresholds and compares the
+ * outcome with the anomalies on record, without writing anything. Anomalies staff
+ * closed as RESOLVED or FALSE_POSITIVE serve as labels when scoring.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_BACKTEST_DAYS = 3 * 366;
+
+// Anomalies stored before the detector was recorded are attributed by the metadata
+// telling detectors of a shared type apart, or else the type's first detector
+const getDetectorId = (anomaly: any): string | null => {
+  if (anomaly.metadata?.detector) return anomaly.metadata.detector;
+  if (anomaly.metadata?.pattern === "DAYLIGHT_OUTAGE") return "INTRADAY_OUTAGE";
+  if (anomaly.metadata?.errorType === "FLATLINE") return "FLATLINE";
+  return getDetectors().find((detector) => detector.anomalyType === anomaly.anomalyType)?.id ?? null;
+};
+
+type AnomalyPeriod = { anomalyType: string; affectedStartDate: Date; affectedEndDate: Date };
+
+// Detection treats anomalies of the same type with overlapping affected periods as one
+const overlaps = (a: AnomalyPeriod, b: AnomalyPeriod) =>
+  a.anomalyType === b.anomalyType &&
+  new Date(a.affectedStartDate) <= new Date(b.affectedEndDate) &&
+  new Date(a.affectedEndDate) >= new Date(b.affectedStartDate);
+
+const summarizeExisting = (anomaly: any) => ({
+  id: anomaly._id,
+  anomalyType: anomaly.anomalyType,
+  detector: getDetectorId(anomaly),
+  severity: anomaly.severity,
+  status: anomaly.status,
+  affectedStartDate: anomaly.affectedStartDate,
+  affectedEndDate: anomaly.affectedEndDate,
+  description: anomaly.description,
+});
+
+const ratio = (numerator: number, denominator: number) =>
+  denominator > 0 ? parseFloat((numerator / denominator).toFixed(3)) : null;
+
+interface ScoreCounts {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+}
+
+const toScore = (counts: ScoreCounts) => {
+  const precision = ratio(counts.truePositives, counts.truePositives + counts.falsePositives);
+  const recall = ratio(counts.truePositives, counts.truePositives + counts.falseNegatives);
+  return {
+    ...counts,
+    precision,
+    recall,
+    f1:
+      precision !== null && recall !== null && precision + recall > 0
+        ? parseFloat(((2 * precision * recall) / (precision + recall)).toFixed(3))
+        : null,
+  };
+};
+
+/**
+ * Scores detected anomalies against closed ones:
+ * a reproduced RESOLVED anomaly is a true positive, a missed one a false negative,
+ * a reproduced FALSE_POSITIVE a false positive and a suppressed one a true negative.
+ * Auto-resolved anomalies were never reviewed, so they are not used as labels.
+ */
+const scoreBacktest = (detected: DetectedAnomaly[], existing: any[]) => {
+  const labels = existing.filter(
+    (anomaly) =>
+      (anomaly.status === "RESOLVED" && anomaly.resolvedBy !== "system") || anomaly.status === "FALSE_POSITIVE"
+  );
+
+  const overall: ScoreCounts = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+  const byDetector: Record<string, ScoreCounts> = {};
+
+  for (const label of labels) {
+    const reproduced = detected.some((anomaly) => overlaps(anomaly, label));
+    const outcome: keyof ScoreCounts =
+      label.status === "RESOLVED"
+        ? reproduced ? "truePositives" : "falseNegatives"
+        : reproduced ? "falsePositives" : "trueNegatives";
+
+    const detectorId = getDetectorId(label) || label.anomalyType;
+    byDetector[detectorId] = byDetector[detectorId] || {
+      truePositives: 0,
+      falsePositives: 0,
+      falseNegatives: 0,
+      trueNegatives: 0,
+    };
+    overall[outcome]++;
+    byDetector[detectorId][outcome]++;
+  }
+
+  return {
+    labels: labels.length,
+    unlabelled: detected.filter((anomaly) => !labels.some((label) => overlaps(anomaly, label))).length,
+    ...toScore(overall),
+    byDetector: Object.keys(byDetector).map((detector) => ({ detector, ...toScore(byDetector[detector]) })),
+  };
+};
+
+/**
+ * Run detectors over a unit and date range without persisting anything (admin only)
+ * Returns what detection would find, a diff against the stored anomalies and, on request, a score
+ */
+export const backtestAnomalies = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = BacktestAnomaliesDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { solarUnitId, from, to, overrides, score } = results.data;
+
+    if (from >= to) {
+      throw new ValidationError("from must be before to");
+    }
+    if (to.getTime() - from.getTime() > MAX_BACKTEST_DAYS * DAY_MS) {
+      throw new ValidationError(`A backtest cannot cover more than ${MAX_BACKTEST_DAYS} days`);
+    }
+    if (!mongoose.isValidObjectId(solarUnitId)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+    const solarUnit = await SolarUnit.findById(solarUnitId);
+    if (!solarUnit) {
+      throw new NotFoundError("Solar unit not found");
+    }
+
+    const requestedIds = (results.data.detectors || []).concat(Object.keys(overrides?.detectors || {}));
+    const unknownDetectors = requestedIds.filter((id) => !getDetector(id));
+    if (unknownDetectors.length > 0) {
+      throw new ValidationError(`Unknown detector(s): ${unknownDetectors.join(", ")}`);
+    }
+
+    const config = await getDetectionConfig(solarUnitId);
+    const thresholds = mergeDetectionThresholds(config.thresholds, overrides);
+    // An explicit list runs exactly those detectors, even ones switched off for the unit
+    const detectors = results.data.detectors
+      ? getDetectors().filter((detector) => results.data.detectors!.includes(detector.id))
+      : getDetectors().filter((detector) => isDetectorEnabled(detector, thresholds));
+    const detectorIds = detectors.map((detector) => detector.id);
+
+    // Data before the range gives the detectors the same context as an incremental run
+    const lookbackFrom = new Date(from.getTime() - getDetectionLookbackDays() * DAY_MS);
+    const run = await runDetectors(
+      solarUnitId,
+      { from: lookbackFrom, to, reportFrom: from },
+      thresholds,
+      detectors
+    );
+
+    const existing = (
+      await Anomaly.find({
+        solarUnitId: solarUnit._id,
+        anomalyType: { $in: detectors.map((detector) => detector.anomalyType) },
+        affectedEndDate: { $gte: from },
+        affectedStartDate: { $lte: to },
+      })
+        .sort({ detectionTimestamp: -1 })
+        .lean()
+    ).filter((anomaly) => detectorIds.includes(getDetectorId(anomaly) || ""));
+
+    // Mirrors how detection stores each anomaly
+    const diff = {
+      created: [] as any[],
+      escalated: [] as any[],
+      unchanged: [] as any[],
+      // Matches a dismissed false positive, so detection would skip it
+      suppressed: [] as any[],
+      notReproduced: [] as any[],
+    };
+    for (const anomaly of run.anomalies) {
+      // Sorted newest first, like the lookup detection makes
+      const matches = existing.filter((match) => overlaps(anomaly, match));
+      // Only open anomalies and dismissed false positives stop detection from creating a new one
+      const blocking = matches.find((match) => !match.resolved || match.status === "FALSE_POSITIVE");
+
+      if (!blocking) {
+        const previouslyResolved = matches.find((match) => match.status === "RESOLVED");
+        diff.created.push({
+          anomaly,
+          previouslyResolved: previouslyResolved ? summarizeExisting(previouslyResolved) : null,
+        });
+      } else if (blocking.status === "FALSE_POSITIVE") {
+        diff.suppressed.push({ anomaly, existing: summarizeExisting(blocking) });
+      } else if (SEVERITY_RANK[anomaly.severity] > SEVERITY_RANK[blocking.severity]) {
+        diff.escalated.push({ anomaly, existing: summarizeExisting(blocking) });
+      } else {
+        diff.unchanged.push({ anomaly, existing: summarizeExisting(blocking) });
+      }
+    }
+    existing.forEach((anomaly) => {
+      if (!run.anomalies.some((detected) => overlaps(detected, anomaly))) {
+        diff.notReproduced.push(summarizeExisting(anomaly));
+      }
+    });
+
+    res.status(200).json({
+      solarUnitId: solarUnit._id,
+      window: { from, to, lookbackFrom },
+      detectors: detectorIds,
+      thresholds,
+      configVersion: config.version,
+      daysAnalyzed: run.records.length,
+      summary: {
+        detected: run.anomalies.length,
+        created: diff.created.length,
+        escalated: diff.escalated.length,
+        unchanged: diff.unchanged.length,
+        suppressed: diff.suppressed.length,
+        notReproduced: diff.notReproduced.length,
+      },
+      diff,
+      ...(score ? { score: scoreBacktest(run.anomalies, existing) } : {}),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,7 +1,26 @@
 import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
 import { SolarUnit } from "../infrastructure/entities/SolarUnit";
 import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { DetectionState } from "../infrastructure/entities/DetectionState";
 import mongoose from "mongoose";
+import { analyzeDegradation, median } from "./degradation";
+import {
+  DetectionThresholds,
+  getDefaultDetectionThresholds,
+  getDetectionConfig,
+} from "./detection-config";
+import { INCLUDED_RECORDS_FILTER } from "./energy-generation-record";
+import { getDaylightWindow } from "./weather";
+import { applyStatusChange } from "./anomaly-lifecycle";
+import { notifyAnomaly, SEVERITY_RANK } from "./notifications";
+import {
+  AnomalyDetector,
+  DetectionResult,
+  DetectorInput,
+  getDetectors,
+  isDetectorEnabled,
+  registerDetector,
+} from "./detector-registry";
 
 /**
  * Anomaly Detection System for Solar Energy Generation
@@ -12,58 +31,69 @@ import mongoose from "mongoose";
  * 3. SHADING - Obstruction or shading issues
  * 4. SENSOR_ERROR - Sensor malfunction or data errors
  * 5. BELOW_AVERAGE - Performance below expected average
+ * 6. DEGRADATION - Long-term output loss beyond the warranty threshold
+ * 7. DATA_GAP - Missing or incomplete days of data
+ * 8-10. Intraday outages, flat-lined sensors and CLIPPING, from interval records
+ * 11. PEER_UNDERPERFORMANCE - Yield far below comparable units on the same day
+ *
+ * Each detector is registered in the detector registry, which decides what runs.
+ * BELOW_AVERAGE is off unless switched on in the unit's detection config.
+ *
+ * Open MECHANICAL and SHADING anomalies are auto-resolved once output recovers.
  */
 
-interface DetectionResult {
-  anomalyType: string;
-  severity: "CRITICAL" | "WARNING" | "INFO";
-  description: string;
-  affectedStartDate: Date;
-  affectedEndDate: Date;
-  metadata: Record<string, any>;
-}
-
 /**
  * 1. MECHANICAL Anomaly Detection
  * Detects sudden drops or zero production indicating equipment failure
  */
 export async function detectMechanicalAnomalies(
   solarUnitId: string,
-  records: any[]
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
 ): Promise<DetectionResult[]> {
   const anomalies: DetectionResult[] = [];
+  const { zeroPreviousRatio, dropRatio, dropAverageRatio, criticalDropPercent } = thresholds.mechanical;
   
-  if (records.length < 2) return anomalies;
+  // Incomplete days look like production drops - they are reported as DATA_GAP instead
+  const completeRecords = records.filter(
+    (r) => (r.completeness ?? 100) >= thresholds.dataGap.minDayCompleteness
+  );
+
+  if (completeRecords.length < 2) return anomalies;
 
   // Calculate average production
-  const avgProduction = records.reduce((sum, r) => sum + (r.totalEnergy || 0), 0) / records.length;
+  const avgProduction = completeRecords.reduce((sum, r) => sum + (r.totalEnergy || 0), 0) / completeRecords.length;
   
-  // Check for sudden drops (>70% decrease) or zero production
-  for (let i = 1; i < records.length; i++) {
-    const prevEnergy = records[i - 1].totalEnergy || 0;
-    const currEnergy = records[i].totalEnergy || 0;
+  // Check for sudden drops or zero production
+  for (let i = 1; i < completeRecords.length; i++) {
+    const prevEnergy = completeRecords[i - 1].totalEnergy || 0;
+    const currEnergy = completeRecords[i].totalEnergy || 0;
     
-    if (currEnergy === 0 && prevEnergy > avgProduction * 0.3) {
+    if (currEnergy === 0 && prevEnergy > avgProduction * zeroPreviousRatio) {
       anomalies.push({
         anomalyType: "MECHANICAL",
         severity: "CRITICAL",
         description: `Complete production failure detected. Previous day: ${prevEnergy.toFixed(2)} kWh, Current: 0 kWh. Possible equipment malfunction.`,
-        affectedStartDate: new Date(records[i]._id.date),
-        affectedEndDate: new Date(records[i]._id.date),
+        affectedStartDate: new Date(completeRecords[i]._id.date),
+        affectedEndDate: new Date(completeRecords[i]._id.date),
         metadata: {
           previousEnergy: prevEnergy,
           currentEnergy: currEnergy,
           dropPercentage: 100,
         },
       });
-    } else if (prevEnergy > 0 && currEnergy < prevEnergy * 0.3 && currEnergy < avgProduction * 0.5) {
+    } else if (
+      prevEnergy > 0 &&
+      currEnergy < prevEnergy * dropRatio &&
+      currEnergy < avgProduction * dropAverageRatio
+    ) {
       const dropPercent = ((prevEnergy - currEnergy) / prevEnergy) * 100;
       anomalies.push({
         anomalyType: "MECHANICAL",
-        severity: dropPercent > 80 ? "CRITICAL" : "WARNING",
+        severity: dropPercent > criticalDropPercent ? "CRITICAL" : "WARNING",
         description: `Significant production drop detected: ${dropPercent.toFixed(1)}% decrease from ${prevEnergy.toFixed(2)} kWh to ${currEnergy.toFixed(2)} kWh. Possible mechanical issue.`,
-        affectedStartDate: new Date(records[i]._id.date),
-        affectedEndDate: new Date(records[i]._id.date),
+        affectedStartDate: new Date(completeRecords[i]._id.date),
+        affectedEndDate: new Date(completeRecords[i]._id.date),
         metadata: {
           previousEnergy: prevEnergy,
           currentEnergy: currEnergy,
@@ -83,30 +113,32 @@ export async function detectMechanicalAnomalies(
  */
 export async function detectTemperatureAnomalies(
   solarUnitId: string,
-  records: any[]
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
 ): Promise<DetectionResult[]> {
   const anomalies: DetectionResult[] = [];
+  const { windowDays, daylightHours, expectedRatio, warningEfficiencyPercent } = thresholds.temperature;
   
-  if (records.length < 7) return anomalies;
+  if (records.length < windowDays) return anomalies;
 
   // Get solar unit capacity for comparison
   const solarUnit = await SolarUnit.findById(solarUnitId);
   if (!solarUnit) return anomalies;
 
   const capacity = solarUnit.capacity; // in kW
-  const expectedDailyEnergy = capacity * 8; // 8 daylight hours * capacity
+  const expectedDailyEnergy = capacity * daylightHours; // daylight hours * capacity
 
   // Check for consistent underperformance during peak hours
-  // If production is consistently below 60% of expected during peak season
-  const recentRecords = records.slice(-7); // Last 7 days
+  // If production is consistently below the expected ratio during peak season
+  const recentRecords = records.slice(-windowDays);
   const avgRecentProduction = recentRecords.reduce((sum, r) => sum + (r.totalEnergy || 0), 0) / recentRecords.length;
-  const expectedProduction = expectedDailyEnergy * 0.6; // 60% of expected
+  const expectedProduction = expectedDailyEnergy * expectedRatio;
 
   if (avgRecentProduction < expectedProduction && avgRecentProduction > 0) {
     const efficiencyPercent = (avgRecentProduction / expectedDailyEnergy) * 100;
     anomalies.push({
       anomalyType: "TEMPERATURE",
-      severity: efficiencyPercent < 40 ? "WARNING" : "INFO",
+      severity: efficiencyPercent < warningEfficiencyPercent ? "WARNING" : "INFO",
       description: `Consistent underperformance detected. Average production: ${avgRecentProduction.toFixed(2)} kWh (${efficiencyPercent.toFixed(1)}% of expected ${expectedDailyEnergy.toFixed(2)} kWh). Possible temperature-related efficiency loss.`,
       affectedStartDate: new Date(recentRecords[0]._id.date),
       affectedEndDate: new Date(recentRecords[recentRecords.length - 1]._id.date),
@@ -129,34 +161,38 @@ export async function detectTemperatureAnomalies(
  */
 export async function detectShadingAnomalies(
   solarUnitId: string,
-  records: any[]
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
 ): Promise<DetectionResult[]> {
   const anomalies: DetectionResult[] = [];
+  const { minDays, peakDays, baselineRatio, lowDayRatio, minLowDays, warningReductionPercent } =
+    thresholds.shading;
   
-  if (records.length < 5) return anomalies;
+  if (records.length < minDays) return anomalies;
 
-  // Calculate baseline (average of top 3 days)
+  // Calculate baseline (average of the top days)
   const sortedByEnergy = [...records]
     .map(r => r.totalEnergy || 0)
     .sort((a, b) => b - a);
   
-  const top3Avg = sortedByEnergy.slice(0, 3).reduce((sum, val) => sum + val, 0) / 3;
+  const peakSample = sortedByEnergy.slice(0, peakDays);
+  const top3Avg = peakSample.reduce((sum, val) => sum + val, 0) / peakSample.length;
   const overallAvg = sortedByEnergy.reduce((sum, val) => sum + val, 0) / sortedByEnergy.length;
 
-  // If overall average is significantly below top 3 average, possible shading
-  if (top3Avg > 0 && overallAvg < top3Avg * 0.7) {
+  // If overall average is significantly below the peak average, possible shading
+  if (top3Avg > 0 && overallAvg < top3Avg * baselineRatio) {
     const reductionPercent = ((top3Avg - overallAvg) / top3Avg) * 100;
     
     // Find consecutive days with low production
     const lowProductionDays = records.filter(r => {
       const energy = r.totalEnergy || 0;
-      return energy < top3Avg * 0.75;
+      return energy < top3Avg * lowDayRatio;
     });
 
-    if (lowProductionDays.length >= 3) {
+    if (lowProductionDays.length >= minLowDays) {
       anomalies.push({
         anomalyType: "SHADING",
-        severity: reductionPercent > 40 ? "WARNING" : "INFO",
+        severity: reductionPercent > warningReductionPercent ? "WARNING" : "INFO",
         description: `Possible shading or obstruction detected. Production consistently ${reductionPercent.toFixed(1)}% below peak performance. Peak: ${top3Avg.toFixed(2)} kWh, Average: ${overallAvg.toFixed(2)} kWh.`,
         affectedStartDate: new Date(lowProductionDays[0]._id.date),
         affectedEndDate: new Date(lowProductionDays[lowProductionDays.length - 1]._id.date),
@@ -179,17 +215,19 @@ export async function detectShadingAnomalies(
  */
 export async function detectSensorErrors(
   solarUnitId: string,
-  records: any[]
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
 ): Promise<DetectionResult[]> {
   const anomalies: DetectionResult[] = [];
+  const { minDays, maxDaylightHours, maxFactor, iqrMultiplier } = thresholds.sensorError;
   
-  if (records.length < 3) return anomalies;
+  if (records.length < minDays) return anomalies;
 
   const solarUnit = await SolarUnit.findById(solarUnitId);
   if (!solarUnit) return anomalies;
 
   const capacity = solarUnit.capacity; // in kW
-  const maxPossibleDailyEnergy = capacity * 10; // Maximum possible (10 hours at 100%)
+  const maxPossibleDailyEnergy = capacity * maxDaylightHours; // Maximum possible (all daylight hours at 100%)
 
   // Check for impossible values
   for (const record of records) {
@@ -211,7 +249,7 @@ export async function detectSensorErrors(
       });
     }
     // Impossible high value (exceeds theoretical maximum)
-    else if (energy > maxPossibleDailyEnergy * 1.2) {
+    else if (energy > maxPossibleDailyEnergy * maxFactor) {
       anomalies.push({
         anomalyType: "SENSOR_ERROR",
         severity: "CRITICAL",
@@ -232,8 +270,8 @@ export async function detectSensorErrors(
   const q1 = energies[Math.floor(energies.length * 0.25)];
   const q3 = energies[Math.floor(energies.length * 0.75)];
   const iqr = q3 - q1;
-  const lowerBound = q1 - 1.5 * iqr;
-  const upperBound = q3 + 1.5 * iqr;
+  const lowerBound = q1 - iqrMultiplier * iqr;
+  const upperBound = q3 + iqrMultiplier * iqr;
 
   for (const record of records) {
     const energy = record.totalEnergy || 0;
@@ -258,29 +296,35 @@ export async function detectSensorErrors(
 }
 
 /**
- * 5. BELOW_AVERAGE Anomaly Detection (existing method)
+ * 5. BELOW_AVERAGE Anomaly Detection
  * Detects days significantly below the window average
  */
-/*export async function detectBelowAverageAnomalies(
+export async function detectBelowAverageAnomalies(
   solarUnitId: string,
   records: any[],
-  thresholdPercent: number = 40
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
 ): Promise<DetectionResult[]> {
   const anomalies: DetectionResult[] = [];
-  
-  if (records.length === 0) return anomalies;
+  const { deviationPercent: thresholdPercent, warningDeviationPercent } = thresholds.belowAverage;
 
-  const totalEnergy = records.reduce((sum, record) => sum + (record.totalEnergy || 0), 0);
-  const averageEnergy = totalEnergy / records.length;
+  // Incomplete days are reported as DATA_GAP instead
+  const completeRecords = records.filter(
+    (r) => (r.completeness ?? 100) >= thresholds.dataGap.minDayCompleteness
+  );
+  if (completeRecords.length === 0) return anomalies;
 
-  for (const record of records) {
+  const totalEnergy = completeRecords.reduce((sum, record) => sum + (record.totalEnergy || 0), 0);
+  const averageEnergy = totalEnergy / completeRecords.length;
+  if (averageEnergy <= 0) return anomalies;
+
+  for (const record of completeRecords) {
     const energy = record.totalEnergy || 0;
     const deviationPercent = ((averageEnergy - energy) / averageEnergy) * 100;
 
     if (deviationPercent > thresholdPercent && energy > 0) {
       anomalies.push({
         anomalyType: "BELOW_AVERAGE",
-        severity: deviationPercent > 60 ? "WARNING" : "INFO",
+        severity: deviationPercent > warningDeviationPercent ? "WARNING" : "INFO",
         description: `Production ${deviationPercent.toFixed(1)}% below window average. Actual: ${energy.toFixed(2)} kWh, Average: ${averageEnergy.toFixed(2)} kWh.`,
         affectedStartDate: new Date(record._id.date),
         affectedEndDate: new Date(record._id.date),
@@ -295,92 +339,1168 @@ export async function detectSensorErrors(
 
   return anomalies;
 }
-*/
+
 /**
- * Main detection function - runs all detection algorithms
+ * 6. DEGRADATION Anomaly Detection
+ * Detects year-over-year output loss above the configured warranty threshold
  */
-export async function detectAllAnomalies(solarUnitId: string): Promise<void> {
-  try {
-    // Get ALL grouped data for this solar unit 
-    const records = await EnergyGenerationRecord.aggregate([
-      {
-        $match: {
-          solarUnitId: new mongoose.Types.ObjectId(solarUnitId),
+export async function detectDegradationAnomalies(
+  solarUnitId: string,
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
+): Promise<DetectionResult[]> {
+  const anomalies: DetectionResult[] = [];
+
+  const solarUnit = await SolarUnit.findById(solarUnitId);
+  if (!solarUnit) return anomalies;
+
+  const { warrantyThreshold, criticalMultiplier } = thresholds.degradation;
+  const analysis = analyzeDegradation(records, solarUnit.capacity, warrantyThreshold);
+  if (analysis.degradationRate === null || !analysis.exceedsWarranty) return anomalies;
+
+  anomalies.push({
+    anomalyType: "DEGRADATION",
+    severity:
+      analysis.degradationRate > analysis.warrantyThreshold * criticalMultiplier ? "CRITICAL" : "WARNING",
+    description: `Output is degrading by ${analysis.degradationRate.toFixed(2)}% per year, above the warranty threshold of ${analysis.warrantyThreshold.toFixed(2)}% per year (${analysis.monthsCompared} months compared year-over-year).`,
+    // Starts at the first compared month; later runs overlap it and extend the same anomaly
+    affectedStartDate: new Date(`${analysis.firstComparedMonth}-01`),
+    affectedEndDate: new Date(records[records.length - 1]._id.date),
+    metadata: {
+      degradationRate: analysis.degradationRate,
+      warrantyThreshold: analysis.warrantyThreshold,
+      monthsCompared: analysis.monthsCompared,
+      lastComparedMonth: analysis.lastComparedMonth,
+    },
+  });
+
+  return anomalies;
+}
+
+/**
+ * 7. DATA_GAP Anomaly Detection
+ * Detects runs of missing or incomplete days between the first and latest day with data
+ * The latest day is skipped as it may still be syncing
+ */
+export async function detectDataGapAnomalies(
+  solarUnitId: string,
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
+): Promise<DetectionResult[]> {
+  const anomalies: DetectionResult[] = [];
+
+  if (records.length < 2) return anomalies;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const completenessByDate: Record<string, number> = {};
+  for (const record of records) {
+    completenessByDate[record._id.date] = record.completeness ?? 100;
+  }
+
+  const firstDay = new Date(records[0]._id.date).getTime();
+  const lastDay = new Date(records[records.length - 1]._id.date).getTime();
+
+  let run: { start: Date; end: Date; missingDays: number; partialDays: number; minCompleteness: number } | null = null;
+  const flush = () => {
+    if (!run) return;
+    const days = run.missingDays + run.partialDays;
+    anomalies.push({
+      anomalyType: "DATA_GAP",
+      severity: run.missingDays > 0 ? "WARNING" : "INFO",
+      description: `Incomplete data for ${days} day(s): ${run.missingDays} missing, ${run.partialDays} partial (lowest completeness ${run.minCompleteness.toFixed(1)}%). Production for these days is unknown, not zero.`,
+      affectedStartDate: run.start,
+      affectedEndDate: run.end,
+      metadata: {
+        missingDays: run.missingDays,
+        partialDays: run.partialDays,
+        minCompleteness: run.minCompleteness,
+      },
+    });
+    run = null;
+  };
+
+  for (let day = firstDay; day < lastDay; day += DAY_MS) {
+    const date = new Date(day);
+    const completeness = completenessByDate[date.toISOString().slice(0, 10)] ?? 0;
+
+    if (completeness >= thresholds.dataGap.minDayCompleteness) {
+      flush();
+      continue;
+    }
+
+    run = run || { start: date, end: date, missingDays: 0, partialDays: 0, minCompleteness: 100 };
+    run.end = date;
+    run.minCompleteness = Math.min(run.minCompleteness, completeness);
+    if (completeness === 0) {
+      run.missingDays++;
+    } else {
+      run.partialDays++;
+    }
+  }
+  flush();
+
+  return anomalies;
+}
+
+/**
+ * Intraday detectors work on raw interval records instead of daily totals
+ * Each record covers [timestamp, timestamp + intervalHours)
+ */
+interface IntervalRecord {
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Slack allowed between one interval's end and the next one's start
+const CONTIGUITY_TOLERANCE_MS = 60 * 1000;
+
+const intervalEnd = (record: IntervalRecord) =>
+  new Date(record.timestamp.getTime() + (record.intervalHours || 2) * HOUR_MS);
+const floorToHour = (date: Date) => new Date(Math.floor(date.getTime() / HOUR_MS) * HOUR_MS);
+const ceilToHour = (date: Date) => new Date(Math.ceil(date.getTime() / HOUR_MS) * HOUR_MS);
+const formatHour = (date: Date) => date.toISOString().slice(0, 13) + ":00Z";
+const isContiguous = (previous: IntervalRecord, current: IntervalRecord) =>
+  current.timestamp.getTime() - intervalEnd(previous).getTime() <= CONTIGUITY_TOLERANCE_MS;
+const powerOf = (record: IntervalRecord) => record.energyGenerated / (record.intervalHours || 2);
+
+/**
+ * Builds a check for whether an interval lies fully inside the hours a unit is expected to produce
+ * Uses sunrise/sunset for units with a location, the configured UTC window otherwise
+ */
+function createDaylightCheck(
+  location: { latitude?: number | null; longitude?: number | null } | null | undefined,
+  intraday: DetectionThresholds["intraday"]
+) {
+  const windows: Record<string, { start: number; end: number } | null> = {};
+  const marginMs = intraday.daylightMarginHours * HOUR_MS;
+
+  const windowFor = (date: string) => {
+    if (!(date in windows)) {
+      const dayStart = new Date(`${date}T00:00:00Z`).getTime();
+      let window: { start: number; end: number } | null;
+      if (location?.latitude != null && location?.longitude != null) {
+        const daylight = getDaylightWindow(date, location.latitude, location.longitude);
+        window = daylight
+          ? { start: daylight.sunrise.getTime() + marginMs, end: daylight.sunset.getTime() - marginMs }
+          : null;
+      } else {
+        window = {
+          start: dayStart + intraday.daylightStartHour * HOUR_MS,
+          end: dayStart + intraday.daylightEndHour * HOUR_MS,
+        };
+      }
+      windows[date] = window && window.start < window.end ? window : null;
+    }
+    return windows[date];
+  };
+
+  return (record: IntervalRecord) => {
+    const start = record.timestamp.getTime();
+    const end = intervalEnd(record).getTime();
+    // Daylight can cross midnight UTC far from Greenwich, so check the neighbouring days too
+    for (const offset of [-DAY_MS, 0, DAY_MS]) {
+      const window = windowFor(new Date(start + offset).toISOString().slice(0, 10));
+      if (window && start >= window.start && end <= window.end) return true;
+    }
+    return false;
+  };
+}
+
+/**
+ * Splits records into runs of contiguous intervals that all satisfy the predicate
+ */
+function findRuns(
+  records: IntervalRecord[],
+  predicate: (record: IntervalRecord, run: IntervalRecord[]) => boolean
+): IntervalRecord[][] {
+  const runs: IntervalRecord[][] = [];
+  let run: IntervalRecord[] = [];
+
+  for (const record of records) {
+    const continues = run.length > 0 && isContiguous(run[run.length - 1], record);
+    if (!continues && run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+    if (predicate(record, run)) {
+      run.push(record);
+    } else if (run.length > 0) {
+      runs.push(run);
+      run = [];
+    }
+  }
+  if (run.length > 0) runs.push(run);
+
+  return runs;
+}
+
+const runHours = (run: IntervalRecord[]) =>
+  (intervalEnd(run[run.length - 1]).getTime() - run[0].timestamp.getTime()) / HOUR_MS;
+
+/**
+ * 8. Intraday outage (MECHANICAL)
+ * Detects zero output during expected daylight on days that otherwise produced,
+ * e.g. an inverter that trips at 10:00 and recovers at 14:00
+ */
+export async function detectIntradayOutageAnomalies(
+  solarUnitId: string,
+  intervals: IntervalRecord[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
+): Promise<DetectionResult[]> {
+  const anomalies: DetectionResult[] = [];
+  if (intervals.length === 0) return anomalies;
+
+  const solarUnit = await SolarUnit.findById(solarUnitId);
+  if (!solarUnit) return anomalies;
+
+  const { minOutageHours } = thresholds.intraday;
+  const isDaylight = createDaylightCheck(solarUnit.location, thresholds.intraday);
+
+  const energyByDate: Record<string, number> = {};
+  for (const record of intervals) {
+    const date = record.timestamp.toISOString().slice(0, 10);
+    energyByDate[date] = (energyByDate[date] || 0) + record.energyGenerated;
+  }
+
+  const runs = findRuns(intervals, (record) => record.energyGenerated === 0 && isDaylight(record));
+
+  for (const run of runs) {
+    const hours = runHours(run);
+    const date = run[0].timestamp.toISOString().slice(0, 10);
+    const dayEnergy = energyByDate[date] || 0;
+    // Whole days without output are reported by the daily MECHANICAL detector
+    if (hours < minOutageHours || dayEnergy <= 0) continue;
+
+    const start = floorToHour(run[0].timestamp);
+    const end = ceilToHour(intervalEnd(run[run.length - 1]));
+    anomalies.push({
+      anomalyType: "MECHANICAL",
+      severity: hours >= minOutageHours * 2 ? "CRITICAL" : "WARNING",
+      description: `No output for ${hours.toFixed(1)} hours during daylight (${formatHour(start)} - ${formatHour(end)}) while the rest of the day produced ${dayEnergy.toFixed(2)} kWh. Possible inverter trip or string failure.`,
+      affectedStartDate: start,
+      affectedEndDate: end,
+      metadata: {
+        pattern: "DAYLIGHT_OUTAGE",
+        outageHours: hours,
+        readings: run.length,
+        dayEnergy,
+      },
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * 9. Flat-line (SENSOR_ERROR)
+ * Detects a stuck sensor repeating the same non-zero reading for hours
+ * Plateaus at the unit's clipping level are left to the CLIPPING detector
+ */
+export async function detectFlatlineAnomalies(
+  solarUnitId: string,
+  intervals: IntervalRecord[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
+): Promise<DetectionResult[]> {
+  const anomalies: DetectionResult[] = [];
+  if (intervals.length === 0) return anomalies;
+
+  const solarUnit = await SolarUnit.findById(solarUnitId);
+  if (!solarUnit) return anomalies;
+
+  const { flatlineMinHours, clippingCapacityRatio } = thresholds.intraday;
+  const clippingPower = (solarUnit.capacity / 1000) * clippingCapacityRatio;
+
+  const runs = findRuns(
+    intervals,
+    (record, run) =>
+      record.energyGenerated > 0 &&
+      (run.length === 0 || Math.abs(powerOf(record) - powerOf(run[0])) < 1e-9)
+  );
+
+  for (const run of runs) {
+    const hours = runHours(run);
+    const power = powerOf(run[0]);
+    if (run.length < 2 || hours < flatlineMinHours || power >= clippingPower) continue;
+
+    const start = floorToHour(run[0].timestamp);
+    const end = ceilToHour(intervalEnd(run[run.length - 1]));
+    anomalies.push({
+      anomalyType: "SENSOR_ERROR",
+      severity: "WARNING",
+      description: `Identical readings of ${run[0].energyGenerated.toFixed(3)} kWh for ${hours.toFixed(1)} hours (${formatHour(start)} - ${formatHour(end)}). Sensor may be stuck.`,
+      affectedStartDate: start,
+      affectedEndDate: end,
+      metadata: {
+        errorType: "FLATLINE",
+        repeatedValue: run[0].energyGenerated,
+        readings: run.length,
+        flatlineHours: hours,
+      },
+    });
+  }
+
+  return anomalies;
+}
+
+/**
+ * 10. CLIPPING Anomaly Detection
+ * Detects output plateauing at the day's peak for hours, typical of an inverter
+ * limiting output below what the panels could deliver. Consecutive clipping
+ * days are reported as one anomaly anchored to the first plateau.
+ */
+export async function detectClippingAnomalies(
+  solarUnitId: string,
+  intervals: IntervalRecord[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
+): Promise<DetectionResult[]> {
+  const anomalies: DetectionResult[] = [];
+  if (intervals.length === 0) return anomalies;
+
+  const solarUnit = await SolarUnit.findById(solarUnitId);
+  if (!solarUnit) return anomalies;
+
+  const { clippingMinHours, clippingCapacityRatio, clippingTolerance } = thresholds.intraday;
+  const capacityInKW = solarUnit.capacity / 1000;
+
+  const recordsByDate: Record<string, IntervalRecord[]> = {};
+  for (const record of intervals) {
+    const date = record.timestamp.toISOString().slice(0, 10);
+    (recordsByDate[date] = recordsByDate[date] || []).push(record);
+  }
+
+  // Longest plateau of each clipping day
+  const plateaus: { date: string; start: Date; end: Date; hours: number; power: number }[] = [];
+  for (const date of Object.keys(recordsByDate).sort()) {
+    const dayRecords = recordsByDate[date];
+    const peakPower = Math.max(...dayRecords.map(powerOf));
+    if (capacityInKW <= 0 || peakPower < capacityInKW * clippingCapacityRatio) continue;
+
+    const runs = findRuns(dayRecords, (record) => powerOf(record) >= peakPower * (1 - clippingTolerance));
+    const longest = runs.reduce((best, run) => (runHours(run) > runHours(best) ? run : best), runs[0]);
+    const hours = runHours(longest);
+    if (hours < clippingMinHours) continue;
+
+    plateaus.push({
+      date,
+      start: floorToHour(longest[0].timestamp),
+      end: ceilToHour(intervalEnd(longest[longest.length - 1])),
+      hours,
+      power: peakPower,
+    });
+  }
+
+  let group: typeof plateaus = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    const first = group[0];
+    const last = group[group.length - 1];
+    const plateauPower = Math.max(...group.map((p) => p.power));
+    anomalies.push({
+      anomalyType: "CLIPPING",
+      severity: "INFO",
+      description: `Output plateaued at ${plateauPower.toFixed(2)} kW (${((plateauPower / capacityInKW) * 100).toFixed(1)}% of capacity) for up to ${Math.max(...group.map((p) => p.hours)).toFixed(1)} hours a day on ${group.length} day(s). The inverter is likely clipping.`,
+      affectedStartDate: first.start,
+      affectedEndDate: last.end,
+      metadata: {
+        plateauPower,
+        capacityInKW,
+        days: group.length,
+        plateaus: group.map((p) => ({ start: p.start, end: p.end, hours: p.hours })),
+      },
+    });
+    group = [];
+  };
+
+  for (const plateau of plateaus) {
+    const previous = group[group.length - 1];
+    if (previous && new Date(plateau.date).getTime() - new Date(previous.date).getTime() > DAY_MS) {
+      flush();
+    }
+    group.push(plateau);
+  }
+  flush();
+
+  return anomalies;
+}
+
+/**
+ * 11. PEER_UNDERPERFORMANCE Anomaly Detection
+ * Compares the unit's capacity-normalized daily yield (kWh/kWp) with its peers on
+ * the same day, so a cloudy day across the region is not mistaken for a fault.
+ * Days far below the peer median by robust z-score are flagged; consecutive days
+ * are reported as one anomaly anchored to the first.
+ */
+export async function detectPeerUnderperformanceAnomalies(
+  solarUnitId: string,
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
+): Promise<DetectionResult[]> {
+  const anomalies: DetectionResult[] = [];
+  const { peerGroup, minPeers, zScoreThreshold, criticalZScore, minDeviationPercent } =
+    thresholds.peerComparison;
+  const { minDayCompleteness } = thresholds.dataGap;
+
+  // Incomplete days are reported as DATA_GAP instead
+  const completeRecords = records.filter((r) => (r.completeness ?? 100) >= minDayCompleteness);
+  if (completeRecords.length === 0) return anomalies;
+
+  const solarUnit = await SolarUnit.findById(solarUnitId);
+  if (!solarUnit || solarUnit.capacity <= 0) return anomalies;
+  const capacityInKW = solarUnit.capacity / 1000;
+
+  const byRegion = peerGroup === "REGION" && !!solarUnit.region;
+  const peers = await SolarUnit.find({
+    _id: { $ne: solarUnit._id },
+    status: "ACTIVE",
+    capacity: { $gt: 0 },
+    ...(byRegion ? { region: solarUnit.region } : {}),
+  }).select("capacity");
+  if (peers.length < minPeers) return anomalies;
+
+  const peerCapacityInKW: Record<string, number> = {};
+  peers.forEach((peer) => {
+    peerCapacityInKW[peer._id.toString()] = peer.capacity / 1000;
+  });
+
+  const peerDays = await EnergyGenerationRecord.aggregate([
+    {
+      $match: {
+        solarUnitId: { $in: peers.map((peer) => peer._id) },
+        timestamp: {
+          $gte: new Date(completeRecords[0]._id.date),
+          $lt: new Date(new Date(completeRecords[completeRecords.length - 1]._id.date).getTime() + DAY_MS),
         },
+        ...INCLUDED_RECORDS_FILTER,
       },
-      {
-        $group: {
-          _id: {
-            date: {
-              $dateToString: { format: "%Y-%m-%d", date: "$timestamp" },
-            },
-          },
-          totalEnergy: { $sum: "$energyGenerated" },
+    },
+    {
+      $group: {
+        _id: {
+          solarUnitId: "$solarUnitId",
+          date: { $dateToString: { format: "%Y-%m-%d", date: "$timestamp" } },
         },
+        totalEnergy: { $sum: "$energyGenerated" },
+        coveredHours: { $sum: "$intervalHours" },
       },
-      {
-        $sort: { "_id.date": 1 },
+    },
+  ]);
+
+  const peerYieldsByDate: Record<string, number[]> = {};
+  for (const day of peerDays) {
+    if (((day.coveredHours || 0) / 24) * 100 < minDayCompleteness) continue;
+    const date = day._id.date;
+    (peerYieldsByDate[date] = peerYieldsByDate[date] || []).push(
+      day.totalEnergy / peerCapacityInKW[day._id.solarUnitId.toString()]
+    );
+  }
+
+  const flagged: {
+    date: string;
+    unitYield: number;
+    peerMedian: number;
+    zScore: number;
+    deviationPercent: number;
+    peers: number;
+  }[] = [];
+  for (const record of completeRecords) {
+    const yields = peerYieldsByDate[record._id.date];
+    if (!yields || yields.length < minPeers) continue;
+
+    const unitYield = (record.totalEnergy || 0) / capacityInKW;
+    const peerMedian = median(yields);
+    if (peerMedian <= 0) continue;
+
+    // Median absolute deviation, scaled to match the standard deviation of normally distributed
+    // yields. The floor keeps the z-score finite when peers agree exactly.
+    const spread = Math.max(
+      1.4826 * median(yields.map((y) => Math.abs(y - peerMedian))),
+      peerMedian * 0.01
+    );
+    const zScore = (unitYield - peerMedian) / spread;
+    const deviationPercent = ((peerMedian - unitYield) / peerMedian) * 100;
+
+    if (zScore <= -zScoreThreshold && deviationPercent >= minDeviationPercent) {
+      flagged.push({ date: record._id.date, unitYield, peerMedian, zScore, deviationPercent, peers: yields.length });
+    }
+  }
+
+  const peerDescription = byRegion ? `${solarUnit.region} peers` : "peers across the fleet";
+  let group: typeof flagged = [];
+  const flush = () => {
+    if (group.length === 0) return;
+    const worst = group.reduce((lowest, day) => (day.zScore < lowest.zScore ? day : lowest), group[0]);
+    anomalies.push({
+      anomalyType: "PEER_UNDERPERFORMANCE",
+      severity: worst.zScore <= -criticalZScore ? "CRITICAL" : "WARNING",
+      description: `Yield far below comparable units on ${group.length} day(s). Worst day ${worst.date}: ${worst.unitYield.toFixed(2)} kWh/kWp vs a median of ${worst.peerMedian.toFixed(2)} kWh/kWp across ${worst.peers} ${peerDescription} (${worst.deviationPercent.toFixed(1)}% below, z-score ${worst.zScore.toFixed(1)}). Peers were not affected, so weather is an unlikely cause.`,
+      affectedStartDate: new Date(group[0].date),
+      affectedEndDate: new Date(group[group.length - 1].date),
+      metadata: {
+        peerGroup: byRegion ? "REGION" : "FLEET",
+        region: byRegion ? solarUnit.region : null,
+        peerMedian: worst.peerMedian,
+        zScore: worst.zScore,
+        unitYield: worst.unitYield,
+        deviationPercent: worst.deviationPercent,
+        peers: worst.peers,
+        days: group,
+      },
+    });
+    group = [];
+  };
+
+  for (const day of flagged) {
+    const previous = group[group.length - 1];
+    if (previous && new Date(day.date).getTime() - new Date(previous.date).getTime() > DAY_MS) {
+      flush();
+    }
+    group.push(day);
+  }
+  flush();
+
+  return anomalies;
+}
+
+/**
+ * Built-in detectors, in the order they run
+ */
+const BUILT_IN_DETECTORS: AnomalyDetector[] = [
+  {
+    id: "MECHANICAL",
+    anomalyType: "MECHANICAL",
+    displayName: "Mechanical",
+    description: "Zero output or a sudden drop from one complete day to the next",
+    input: "DAILY",
+    minHistoryDays: () => 2,
+    defaultSeverity: "CRITICAL",
+    severityRules: {
+      CRITICAL: "Zero output after a normal day, or a drop above criticalDropPercent",
+      WARNING: "Any other drop below dropRatio of the previous day and dropAverageRatio of the average",
+    },
+    enabledByDefault: true,
+    detect: detectMechanicalAnomalies,
+  },
+  {
+    id: "TEMPERATURE",
+    anomalyType: "TEMPERATURE",
+    displayName: "Temperature",
+    description: "Output consistently below expectation over the recent window",
+    input: "DAILY",
+    minHistoryDays: (thresholds) => thresholds.temperature.windowDays,
+    defaultSeverity: "INFO",
+    severityRules: {
+      WARNING: "Efficiency below warningEfficiencyPercent",
+      INFO: "Efficiency below expectedRatio",
+    },
+    enabledByDefault: true,
+    detect: detectTemperatureAnomalies,
+  },
+  {
+    id: "SHADING",
+    anomalyType: "SHADING",
+    displayName: "Shading",
+    description: "Average output well below the peak days, with repeated low days",
+    input: "DAILY",
+    minHistoryDays: (thresholds) => thresholds.shading.minDays,
+    defaultSeverity: "INFO",
+    severityRules: {
+      WARNING: "Reduction from peak above warningReductionPercent",
+      INFO: "Any smaller reduction below baselineRatio",
+    },
+    enabledByDefault: true,
+    detect: detectShadingAnomalies,
+  },
+  {
+    id: "SENSOR_ERROR",
+    anomalyType: "SENSOR_ERROR",
+    displayName: "Sensor Error",
+    description: "Negative or physically impossible daily totals, and statistical outliers",
+    input: "DAILY",
+    minHistoryDays: (thresholds) => thresholds.sensorError.minDays,
+    defaultSeverity: "WARNING",
+    severityRules: {
+      CRITICAL: "Negative readings, or readings above the theoretical maximum",
+      WARNING: "Readings outside the IQR bounds",
+    },
+    enabledByDefault: true,
+    detect: detectSensorErrors,
+  },
+  {
+    id: "BELOW_AVERAGE",
+    anomalyType: "BELOW_AVERAGE",
+    displayName: "Below Average",
+    description: "Complete days far below the window average",
+    input: "DAILY",
+    minHistoryDays: () => 1,
+    defaultSeverity: "INFO",
+    severityRules: {
+      WARNING: "Deviation above warningDeviationPercent",
+      INFO: "Deviation above deviationPercent",
+    },
+    // Noisy on its own, units opt in through their detection config
+    enabledByDefault: false,
+    detect: detectBelowAverageAnomalies,
+  },
+  {
+    id: "DEGRADATION",
+    anomalyType: "DEGRADATION",
+    displayName: "Degradation",
+    description: "Year-over-year output loss above the warranty threshold",
+    input: "HISTORY",
+    // A month can only be compared once the same month a year earlier has data
+    minHistoryDays: () => 365 + 15,
+    defaultSeverity: "WARNING",
+    severityRules: {
+      CRITICAL: "Rate above warrantyThreshold times criticalMultiplier",
+      WARNING: "Rate above warrantyThreshold",
+    },
+    enabledByDefault: true,
+    detect: detectDegradationAnomalies,
+  },
+  {
+    id: "DATA_GAP",
+    anomalyType: "DATA_GAP",
+    displayName: "Data Gap",
+    description: "Runs of missing or partially covered days",
+    input: "DAILY",
+    minHistoryDays: () => 2,
+    defaultSeverity: "INFO",
+    severityRules: {
+      WARNING: "The run contains a day without any data",
+      INFO: "The run only contains partial days",
+    },
+    enabledByDefault: true,
+    detect: detectDataGapAnomalies,
+  },
+  {
+    id: "INTRADAY_OUTAGE",
+    anomalyType: "MECHANICAL",
+    displayName: "Mechanical",
+    description: "Zero output for hours during daylight on a day that otherwise produced",
+    input: "INTERVALS",
+    minHistoryDays: () => 1,
+    defaultSeverity: "WARNING",
+    severityRules: {
+      CRITICAL: "Outage of at least twice minOutageHours",
+      WARNING: "Outage of at least minOutageHours",
+    },
+    enabledByDefault: true,
+    detect: detectIntradayOutageAnomalies,
+  },
+  {
+    id: "FLATLINE",
+    anomalyType: "SENSOR_ERROR",
+    displayName: "Sensor Error",
+    description: "The same non-zero reading repeated for hours",
+    input: "INTERVALS",
+    minHistoryDays: () => 1,
+    defaultSeverity: "WARNING",
+    severityRules: {
+      WARNING: "Identical readings for at least flatlineMinHours",
+    },
+    enabledByDefault: true,
+    detect: detectFlatlineAnomalies,
+  },
+  {
+    id: "CLIPPING",
+    anomalyType: "CLIPPING",
+    displayName: "Inverter Clipping",
+    description: "Output plateauing at the day's peak for hours",
+    input: "INTERVALS",
+    minHistoryDays: () => 1,
+    defaultSeverity: "INFO",
+    severityRules: {
+      INFO: "Plateau of at least clippingMinHours above clippingCapacityRatio of capacity",
+    },
+    enabledByDefault: true,
+    detect: detectClippingAnomalies,
+  },
+  {
+    id: "PEER_COMPARISON",
+    anomalyType: "PEER_UNDERPERFORMANCE",
+    displayName: "Peer Underperformance",
+    description: "Capacity-normalized yield far below the active units in the same region, or the fleet",
+    input: "DAILY",
+    minHistoryDays: () => 1,
+    defaultSeverity: "WARNING",
+    severityRules: {
+      CRITICAL: "Robust z-score at or below -criticalZScore",
+      WARNING: "Robust z-score at or below -zScoreThreshold and at least minDeviationPercent below the peer median",
+    },
+    enabledByDefault: true,
+    detect: detectPeerUnderperformanceAnomalies,
+  },
+];
+
+BUILT_IN_DETECTORS.forEach(registerDetector);
+
+// Detectors whose condition can clear on its own once output recovers
+const AUTO_RESOLVABLE_TYPES = ["MECHANICAL", "SHADING"];
+
+/**
+ * Auto-resolution - closes open MECHANICAL and SHADING anomalies once the latest
+ * complete days have all been back above the pre-anomaly baseline for the
+ * configured number of days. Closed with resolvedBy "system" and a recovery summary.
+ */
+export async function autoResolveRecoveredAnomalies(
+  solarUnitId: string,
+  records: any[],
+  thresholds: DetectionThresholds = getDefaultDetectionThresholds()
+): Promise<number> {
+  const { recoveryDays, recoveryRatio } = thresholds.autoResolve;
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const completeRecords = records.filter(
+    (r) => (r.completeness ?? 100) >= thresholds.dataGap.minDayCompleteness
+  );
+  if (completeRecords.length < recoveryDays) return 0;
+
+  // The most recent days must be consecutive to show a sustained recovery
+  const recentDays = completeRecords.slice(-recoveryDays);
+  for (let i = 1; i < recentDays.length; i++) {
+    const gap = new Date(recentDays[i]._id.date).getTime() - new Date(recentDays[i - 1]._id.date).getTime();
+    if (gap > DAY_MS) return 0;
+  }
+  const firstRecentDay = new Date(recentDays[0]._id.date);
+  const lowestRecentEnergy = Math.min(...recentDays.map((r) => r.totalEnergy || 0));
+  const averageRecentEnergy =
+    recentDays.reduce((sum, r) => sum + (r.totalEnergy || 0), 0) / recentDays.length;
+
+  const openAnomalies = await Anomaly.find({
+    solarUnitId,
+    anomalyType: { $in: AUTO_RESOLVABLE_TYPES },
+    resolved: false,
+  });
+
+  let resolvedCount = 0;
+  for (const anomaly of openAnomalies) {
+    // Only days after the affected window can show a recovery
+    if (firstRecentDay <= anomaly.affectedEndDate) continue;
+
+    let baselineEnergy: number | null = null;
+    if (anomaly.anomalyType === "SHADING") {
+      baselineEnergy = anomaly.metadata?.peakProduction ?? null;
+    } else {
+      const before = completeRecords.filter((r) => new Date(r._id.date) < anomaly.affectedStartDate);
+      baselineEnergy =
+        before.length > 0
+          ? before.reduce((sum, r) => sum + (r.totalEnergy || 0), 0) / before.length
+          : anomaly.metadata?.previousEnergy ?? null;
+    }
+    if (!baselineEnergy || baselineEnergy <= 0) continue;
+    if (lowestRecentEnergy < baselineEnergy * recoveryRatio) continue;
+
+    anomaly.metadata = {
+      ...anomaly.metadata,
+      recovery: {
+        recoveredFrom: firstRecentDay,
+        recoveredThrough: new Date(recentDays[recentDays.length - 1]._id.date),
+        daysEvaluated: recentDays.length,
+        baselineEnergy,
+        averageRecoveryEnergy: averageRecentEnergy,
+        lowestRecoveryEnergy: lowestRecentEnergy,
+        recoveryRatio,
+      },
+    };
+    applyStatusChange(
+      anomaly,
+      "RESOLVED",
+      "system",
+      `Output recovered for ${recentDays.length} consecutive days (lowest ${lowestRecentEnergy.toFixed(2)} kWh vs baseline ${baselineEnergy.toFixed(2)} kWh)`
+    );
+    await anomaly.save();
+    resolvedCount++;
+  }
+
+  return resolvedCount;
+}
+
+interface DetectionWindow {
+  from?: Date;
+  to?: Date;
+  // Only anomalies ending at or after this date are stored - earlier data was already analyzed
+  reportFrom?: Date;
+}
+
+interface DetectionSummary {
+  created: number;
+  escalated: number;
+  skipped: number;
+  autoResolved: number;
+  // Latest record the run analyzed, null when there were none
+  latestTimestamp: Date | null;
+}
+
+// Year-over-year degradation needs two full years of daily totals, whatever the window
+const HISTORY_DAYS = 2 * 365 + 31;
+const DEFAULT_LOOKBACK_DAYS = 30;
+
+/**
+ * Days of already analyzed data re-read for context on each incremental run
+ */
+export const getDetectionLookbackDays = (): number => {
+  const days = parseInt(process.env.DETECTION_LOOKBACK_DAYS || "", 10);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_LOOKBACK_DAYS;
+};
+
+const startOfUTCDay = (date: Date) => new Date(`${date.toISOString().slice(0, 10)}T00:00:00Z`);
+
+/**
+ * Daily totals with the share of each day covered by records,
+ * so detectors can tell missing data from low production
+ */
+async function aggregateDailyRecords(match: any) {
+  const records = await EnergyGenerationRecord.aggregate([
+    {
+      $match: match,
+    },
+    {
+      $group: {
+        _id: {
+          date: {
+            $dateToString: { format: "%Y-%m-%d", date: "$timestamp" },
+          },
+        },
+        totalEnergy: { $sum: "$energyGenerated" },
+        coveredHours: { $sum: "$intervalHours" },
       },
-    ]);
+    },
+    {
+      $sort: { "_id.date": 1 },
+    },
+  ]);
+
+  for (const record of records) {
+    record.completeness = Math.min(100, ((record.coveredHours || 0) / 24) * 100);
+  }
+  return records;
+}
+
+export interface DetectedAnomaly extends DetectionResult {
+  // Registry id of the detector that raised the anomaly
+  detectorId: string;
+}
+
+interface DetectorRun {
+  // Daily totals of the analyzed window, empty when the unit has no records in it
+  records: any[];
+  intervals: IntervalRecord[];
+  anomalies: DetectedAnomaly[];
+}
+
+/**
+ * Runs the given detectors over a unit's data and returns what they found
+ * Nothing is read from or written to the Anomaly collection
+ */
+export async function runDetectors(
+  solarUnitId: string,
+  { from, to, reportFrom }: DetectionWindow,
+  thresholds: DetectionThresholds,
+  detectors: AnomalyDetector[]
+): Promise<DetectorRun> {
+  const unitMatch = {
+    solarUnitId: new mongoose.Types.ObjectId(solarUnitId),
+    ...INCLUDED_RECORDS_FILTER,
+  };
+  const match: any = { ...unitMatch };
+  if (from || to) {
+    match.timestamp = {};
+    if (from) match.timestamp.$gte = from;
+    if (to) match.timestamp.$lte = to;
+  }
+
+  // Get grouped data for this solar unit
+  const records = await aggregateDailyRecords(match);
+  if (records.length === 0) {
+    return { records, intervals: [], anomalies: [] };
+  }
+
+  const needs = (input: DetectorInput) => detectors.some((detector) => detector.input === input);
+
+  // Raw intervals for the intraday detectors, also used for the run's latest timestamp
+  const intervals: IntervalRecord[] = await EnergyGenerationRecord.find(match)
+    .sort({ timestamp: 1 })
+    .select("timestamp energyGenerated intervalHours")
+    .lean();
+
+  // A window is too short for year-over-year comparison, so long-term detectors read their own history
+  const historyRecords =
+    from && needs("HISTORY")
+      ? await aggregateDailyRecords({
+          ...unitMatch,
+          timestamp: {
+            $gte: new Date((to || new Date()).getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000),
+            ...(to ? { $lte: to } : {}),
+          },
+        })
+      : records;
+
+  const intervalDays: Record<string, boolean> = {};
+  intervals.forEach((record) => {
+    intervalDays[record.timestamp.toISOString().slice(0, 10)] = true;
+  });
+
+  const inputs: Record<DetectorInput, { data: any[]; days: number }> = {
+    DAILY: { data: records, days: records.length },
+    INTERVALS: { data: intervals, days: Object.keys(intervalDays).length },
+    HISTORY: { data: historyRecords, days: historyRecords.length },
+  };
+
+  // Run every detector that has enough history
+  const results = await Promise.all(
+    detectors.map(async (detector) => {
+      const { data, days } = inputs[detector.input];
+      if (days < detector.minHistoryDays(thresholds)) return [];
+      const anomalies = await detector.detect(solarUnitId, data, thresholds);
+      return anomalies.map((anomaly) => ({ ...anomaly, detectorId: detector.id }));
+    })
+  );
+
+  // Combine all anomalies
+  const anomalies = results
+    .reduce((all, detected) => all.concat(detected), [] as DetectedAnomaly[])
+    .filter((anomaly) => !reportFrom || anomaly.affectedEndDate >= reportFrom);
+
+  return { records, intervals, anomalies };
+}
+
+/**
+ * Latest open or dismissed anomaly of the same type whose affected period overlaps the detected one
+ */
+const findOverlappingAnomaly = (
+  solarUnitId: string,
+  anomaly: Pick<DetectionResult, "anomalyType" | "affectedStartDate" | "affectedEndDate">
+) =>
+  Anomaly.findOne({
+    solarUnitId,
+    anomalyType: anomaly.anomalyType,
+    affectedStartDate: { $lte: anomaly.affectedEndDate },
+    affectedEndDate: { $gte: anomaly.affectedStartDate },
+    $or: [{ resolved: false }, { status: "FALSE_POSITIVE" }],
+  }).sort({ detectionTimestamp: -1 });
+
+// Longer than a full-history run takes; a crashed run's lease expires after it
+const DETECTION_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Takes the unit's detection lease, unless another run holds it
+ * @returns the lease expiry, which releases it again, or null when it is taken
+ */
+async function acquireDetectionLease(solarUnitId: string): Promise<Date | null> {
+  const now = new Date();
+  const runningUntil = new Date(now.getTime() + DETECTION_LEASE_MS);
+  try {
+    await DetectionState.findOneAndUpdate(
+      { solarUnitId, $or: [{ runningUntil: { $exists: false } }, { runningUntil: { $lte: now } }] },
+      { $set: { runningUntil } },
+      { upsert: true }
+    );
+    return runningUntil;
+  } catch (error: any) {
+    // The upsert collides with the existing state when the lease is held
+    if (error?.code === 11000) return null;
+    throw error;
+  }
+}
+
+const releaseDetectionLease = (solarUnitId: string, runningUntil: Date) =>
+  DetectionState.updateOne({ solarUnitId, runningUntil }, { $unset: { runningUntil: 1 } });
+
+/**
+ * Main detection function - runs every registered detector enabled for the unit
+ * Analyzes the unit's whole history, or only the given window
+ * Returns null without running when another run for the unit is in progress
+ */
+export async function detectAllAnomalies(
+  solarUnitId: string,
+  window: DetectionWindow = {}
+): Promise<DetectionSummary | null> {
+  let lease: Date | null = null;
+  try {
+    lease = await acquireDetectionLease(solarUnitId);
+    if (!lease) {
+      console.log(`Anomaly detection is already running for solar unit ${solarUnitId}, skipped`);
+      return null;
+    }
+
+    const { thresholds, version } = await getDetectionConfig(solarUnitId);
+    const detectors = getDetectors().filter((detector) => isDetectorEnabled(detector, thresholds));
+
+    const { records, intervals, anomalies: allAnomalies } = await runDetectors(
+      solarUnitId,
+      window,
+      thresholds,
+      detectors
+    );
 
     if (records.length === 0) {
       console.log(`No energy generation records found for solar unit ${solarUnitId}`);
-      return;
+      return { created: 0, escalated: 0, skipped: 0, autoResolved: 0, latestTimestamp: null };
     }
 
-    console.log(`Processing ${records.length} daily records for anomaly detection (solar unit ${solarUnitId})`);
-
-    // Run all detection algorithms
-    const [
-      mechanicalAnomalies,
-      temperatureAnomalies,
-      shadingAnomalies,
-      sensorErrors,
-     // belowAverageAnomalies,
-    ] = await Promise.all([
-      detectMechanicalAnomalies(solarUnitId, records),
-      detectTemperatureAnomalies(solarUnitId, records),
-      detectShadingAnomalies(solarUnitId, records),
-      detectSensorErrors(solarUnitId, records),
-      //detectBelowAverageAnomalies(solarUnitId, records),
-    ]);
-
-    // Combine all anomalies
-    const allAnomalies = [
-      ...mechanicalAnomalies,
-      ...temperatureAnomalies,
-      ...shadingAnomalies,
-      ...sensorErrors,
-     // ...belowAverageAnomalies,
-    ];
+    console.log(`Processed ${records.length} daily records for anomaly detection (solar unit ${solarUnitId})`);
 
     // Save anomalies to database (avoid duplicates)
     let createdCount = 0;
     let skippedCount = 0;
+    let escalatedCount = 0;
     
-    for (const anomaly of allAnomalies) {
-      // Check if similar anomaly already exists
-      const existing = await Anomaly.findOne({
-        solarUnitId,
-        anomalyType: anomaly.anomalyType,
-        affectedStartDate: anomaly.affectedStartDate,
-        resolved: false,
-      });
+    for (const { detectorId, ...anomaly } of allAnomalies) {
+      // Which detector and thresholds produced the anomaly
+      const metadata = { ...anomaly.metadata, detector: detectorId, configVersion: version };
+
+      // Check if the same problem is already reported, or was dismissed as a false positive.
+      // Windowed detectors report a period that moves as data arrives, so any overlap
+      // with an anomaly of the same type counts, not only the same start date.
+      const existing = await findOverlappingAnomaly(solarUnitId, anomaly);
 
       if (!existing) {
-        await Anomaly.create({
-          solarUnitId,
-          ...anomaly,
-        });
+        const created = await Anomaly.create({ solarUnitId, ...anomaly, metadata });
         createdCount++;
+        await notifyAnomaly(created._id, "CREATED");
+      } else if (!existing.resolved) {
+        const escalated = SEVERITY_RANK[anomaly.severity] > SEVERITY_RANK[existing.severity];
+        const extended = anomaly.affectedEndDate > existing.affectedEndDate;
+
+        // The period grows as the problem continues; only a worse severity is notified again
+        if (extended) {
+          existing.affectedEndDate = anomaly.affectedEndDate;
+        }
+        if (escalated) {
+          existing.severity = anomaly.severity;
+        }
+        if (extended || escalated) {
+          existing.description = anomaly.description;
+          existing.metadata = metadata;
+          await existing.save();
+        }
+
+        if (escalated) {
+          escalatedCount++;
+          await notifyAnomaly(existing._id, "ESCALATED");
+        } else {
+          skippedCount++;
+        }
       } else {
         skippedCount++;
       }
     }
 
-    console.log(`Anomaly detection complete: ${createdCount} new anomalies created, ${skippedCount} duplicates skipped (total detected: ${allAnomalies.length})`);
+    // Re-evaluate open anomalies against the newer data
+    const autoResolvedCount = await autoResolveRecoveredAnomalies(solarUnitId, records, thresholds);
+
+    console.log(`Anomaly detection complete: ${createdCount} new anomalies created, ${escalatedCount} escalated, ${skippedCount} duplicates skipped, ${autoResolvedCount} auto-resolved (total detected: ${allAnomalies.length})`);
+
+    return {
+      created: createdCount,
+      escalated: escalatedCount,
+      skipped: skippedCount,
+      autoResolved: autoResolvedCount,
+      latestTimestamp: intervals.length > 0 ? intervals[intervals.length - 1].timestamp : null,
+    };
   } catch (error) {
     console.error(`Error detecting anomalies for solar unit ${solarUnitId}:`, error);
+    return null;
+  } finally {
+    if (lease) {
+      await releaseDetectionLease(solarUnitId, lease).catch((error) =>
+        console.error(`Failed to release the detection lease for solar unit ${solarUnitId}:`, error)
+      );
+    }
   }
 }
 
+/**
+ * Marks a unit's data from the given time as changed, so the next incremental run
+ * analyzes it again. Only data the watermark has passed needs marking; newer data
+ * is picked up anyway, and units never analyzed get a full run.
+ */
+export async function markDetectionDirty(solarUnitId: string, from: Date) {
+  await DetectionState.updateOne(
+    { solarUnitId, watermark: { $gte: from } },
+    { $min: { dirtyFrom: from } }
+  );
+}
+
+/**
+ * Incremental detection - analyzes data newer than the unit's watermark plus a
+ * look-back window for context. Periods before the watermark are not reported
+ * again, so resolved anomalies in old data stay resolved, unless records there
+ * were written or corrected since (see markDetectionDirty).
+ * Never throws - failures are logged and null is returned
+ */
+export async function detectNewAnomalies(solarUnitId: string): Promise<DetectionSummary | null> {
+  let dirtyFrom: Date | null | undefined;
+  try {
+    // Reading the state clears the dirty marker, so data changed during the run marks it again
+    const state = await DetectionState.findOneAndUpdate({ solarUnitId }, { $unset: { dirtyFrom: 1 } });
+    const watermark = state?.watermark;
+    dirtyFrom = state?.dirtyFrom;
+
+    if (watermark && !dirtyFrom) {
+      const latest = await EnergyGenerationRecord.findOne({
+        solarUnitId,
+        ...INCLUDED_RECORDS_FILTER,
+      })
+        .sort({ timestamp: -1 })
+        .select("timestamp");
+      if (!latest || latest.timestamp <= watermark) {
+        return { created: 0, escalated: 0, skipped: 0, autoResolved: 0, latestTimestamp: watermark };
+      }
+    }
+
+    // Daily detectors work on whole days, so the watermark's day is analyzed again,
+    // or the day of the earliest changed record when that comes first
+    const reportStart = watermark && dirtyFrom && dirtyFrom < watermark ? dirtyFrom : watermark;
+    const reportFrom = reportStart ? startOfUTCDay(reportStart) : undefined;
+    const from = reportFrom
+      ? new Date(reportFrom.getTime() - getDetectionLookbackDays() * 24 * 60 * 60 * 1000)
+      : undefined;
+
+    const summary = await detectAllAnomalies(solarUnitId, { from, reportFrom });
+    if (!summary && dirtyFrom) {
+      await markDetectionDirty(solarUnitId, dirtyFrom);
+    }
+    if (summary?.latestTimestamp) {
+      await DetectionState.updateOne(
+        { solarUnitId },
+        { $set: { watermark: summary.latestTimestamp, lastRunAt: new Date() } },
+        { upsert: true }
+      );
+    }
+    return summary;
+  } catch (error) {
+    console.error(`Error running incremental anomaly detection for solar unit ${solarUnitId}:`, error);
+    // Keep the changed data marked for the next run
+    if (dirtyFrom) {
+      await markDetectionDirty(solarUnitId, dirtyFrom).catch(() => undefined);
+    }
+    return null;
+  }
+}
+
+/**
+ * Full rescan - analyzes the whole history again, including already reported periods,
+ * and moves the watermark to the latest record
+ */
+export async function rescanAnomalies(solarUnitId: string): Promise<DetectionSummary | null> {
+  const summary = await detectAllAnomalies(solarUnitId);
+  if (summary) {
+    const now = new Date();
+    await DetectionState.updateOne(
+      { solarUnitId },
+      {
+        $set: {
+          ...(summary.latestTimestamp ? { watermark: summary.latestTimestamp } : {}),
+          lastRunAt: now,
+          lastFullScanAt: now,
+        },
+      },
+      { upsert: true }
+    );
+  }
+  return summary;
+}
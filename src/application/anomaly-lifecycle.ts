@@ -0,0 +1,339 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import {
+  AnomalyStatusDto,
+  AssignAnomalyDto,
+  CreateAnomalyCommentDto,
+  GetFalsePositivesQueryDto,
+  ResolveAnomalyDto,
+  UpdateAnomalyStatusDto,
+} from "../domain/dtos/anomaly";
+import { ForbiddenError, NotFoundError, ValidationError } from "../domain/errors/error";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { User } from "../infrastructure/entities/User";
+import { Actor, getActor, isStaffUser } from "./actor";
+
+/**
+ * Anomaly Lifecycle
+ *
+ * OPEN → ACKNOWLEDGED → IN_PROGRESS → RESOLVED | FALSE_POSITIVE
+ *
+ * Steps may be skipped, and staff can reopen a closed anomaly. Every status
+ * change is appended to the anomaly's history. Only the owner of the solar unit
+ * or staff may act on an anomaly; only staff can assign or reopen.
+ */
+
+export type AnomalyStatus = z.infer<typeof AnomalyStatusDto>;
+
+const CLOSED_STATUSES: AnomalyStatus[] = ["RESOLVED", "FALSE_POSITIVE"];
+
+const ALLOWED_TRANSITIONS: Record<AnomalyStatus, AnomalyStatus[]> = {
+  OPEN: ["ACKNOWLEDGED", "IN_PROGRESS", "RESOLVED", "FALSE_POSITIVE"],
+  ACKNOWLEDGED: ["IN_PROGRESS", "RESOLVED", "FALSE_POSITIVE"],
+  IN_PROGRESS: ["ACKNOWLEDGED", "RESOLVED", "FALSE_POSITIVE"],
+  RESOLVED: ["OPEN"],
+  FALSE_POSITIVE: ["OPEN"],
+};
+
+type AnomalyDocument = InstanceType<typeof Anomaly>;
+
+/**
+ * Moves an anomaly to a new status and records the change
+ * Does not save the document
+ * @param changedBy - Clerk user id, or "system" for automatic changes
+ */
+export function applyStatusChange(
+  anomaly: AnomalyDocument,
+  to: AnomalyStatus,
+  changedBy: string,
+  note?: string
+) {
+  const from = anomaly.status as AnomalyStatus;
+
+  if (!ALLOWED_TRANSITIONS[from].includes(to)) {
+    throw new ValidationError(`Cannot change anomaly status from ${from} to ${to}`);
+  }
+
+  const now = new Date();
+  anomaly.status = to;
+  anomaly.statusHistory.push({ from, to, changedBy, changedAt: now, note });
+
+  if (CLOSED_STATUSES.includes(to)) {
+    anomaly.resolved = true;
+    anomaly.resolvedAt = now;
+    anomaly.resolvedBy = changedBy;
+    anomaly.resolutionNote = note;
+  } else if (CLOSED_STATUSES.includes(from)) {
+    anomaly.resolved = false;
+    anomaly.resolvedAt = undefined;
+    anomaly.resolvedBy = undefined;
+    anomaly.resolutionNote = undefined;
+  }
+}
+
+/**
+ * Loads an anomaly the actor may act on: staff can act on any, users only on their own units'
+ */
+const findAnomalyForActor = async (id: string, actor: Actor) => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new ValidationError("Invalid anomaly id");
+  }
+
+  const anomaly = await Anomaly.findById(id);
+  if (!anomaly) {
+    throw new NotFoundError("Anomaly not found");
+  }
+
+  if (!actor.isStaff) {
+    const solarUnit = await SolarUnit.findById(anomaly.solarUnitId);
+    if (!solarUnit || !solarUnit.userId || !solarUnit.userId.equals(actor.user._id)) {
+      throw new ForbiddenError("Forbidden");
+    }
+  }
+
+  return anomaly;
+};
+
+const populateAnomaly = (anomaly: AnomalyDocument) =>
+  anomaly.populate([
+    { path: "solarUnitId", select: "serialNumber capacity" },
+    { path: "assignedTo", select: "firstName lastName email" },
+    { path: "comments.authorId", select: "firstName lastName email role" },
+  ]);
+
+/**
+ * Get an anomaly with its comments and status history
+ */
+export const getAnomalyById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const actor = await getActor(req);
+    const anomaly = await findAnomalyForActor(req.params.id, actor);
+
+    res.status(200).json(await populateAnomaly(anomaly));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change an anomaly's status
+ */
+export const updateAnomalyStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = UpdateAnomalyStatusDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { status, note } = results.data;
+
+    const actor = await getActor(req);
+    const anomaly = await findAnomalyForActor(req.params.id, actor);
+
+    if (status === "OPEN" && !actor.isStaff) {
+      throw new ForbiddenError("Only staff can reopen anomalies");
+    }
+
+    applyStatusChange(anomaly, status, actor.clerkUserId, note);
+    await anomaly.save();
+
+    res.status(200).json(await populateAnomaly(anomaly));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resolve an anomaly - shorthand for a change to RESOLVED
+ */
+export const resolveAnomaly = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = ResolveAnomalyDto.safeParse(req.body || {});
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+
+    const actor = await getActor(req);
+    const anomaly = await findAnomalyForActor(req.params.id, actor);
+
+    applyStatusChange(anomaly, "RESOLVED", actor.clerkUserId, results.data.note);
+    await anomaly.save();
+
+    res.status(200).json(anomaly);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Assign an anomaly to a staff member, or unassign it (staff only)
+ */
+export const assignAnomaly = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = AssignAnomalyDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { assigneeId } = results.data;
+
+    const actor = await getActor(req);
+    if (!actor.isStaff) {
+      throw new ForbiddenError("Only staff can assign anomalies");
+    }
+    const anomaly = await findAnomalyForActor(req.params.id, actor);
+
+    if (assigneeId) {
+      if (!mongoose.isValidObjectId(assigneeId)) {
+        throw new ValidationError("Invalid assignee id");
+      }
+      const assignee = await User.findById(assigneeId);
+      if (!assignee) {
+        throw new NotFoundError("Assignee not found");
+      }
+      if (!isStaffUser(assignee)) {
+        throw new ValidationError("Anomalies can only be assigned to staff");
+      }
+      anomaly.assignedTo = assignee._id;
+      anomaly.assignedAt = new Date();
+    } else {
+      anomaly.assignedTo = undefined;
+      anomaly.assignedAt = undefined;
+    }
+    await anomaly.save();
+
+    res.status(200).json(await populateAnomaly(anomaly));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add a comment to an anomaly
+ */
+export const addAnomalyComment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = CreateAnomalyCommentDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+
+    const actor = await getActor(req);
+    const anomaly = await findAnomalyForActor(req.params.id, actor);
+
+    anomaly.comments.push({ authorId: actor.user._id, body: results.data.body, createdAt: new Date() });
+    await anomaly.save();
+
+    const populated = await populateAnomaly(anomaly);
+    res.status(201).json(populated.comments[populated.comments.length - 1]);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List false positives with counts per detector, for tuning thresholds (admin only)
+ */
+export const getFalsePositives = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = GetFalsePositivesQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { type, solarUnitId, from, to } = results.data;
+
+    const query: any = { status: "FALSE_POSITIVE" };
+    if (type) query.anomalyType = type;
+    if (solarUnitId) {
+      if (!mongoose.isValidObjectId(solarUnitId)) {
+        throw new ValidationError("Invalid solar unit id");
+      }
+      query.solarUnitId = new mongoose.Types.ObjectId(solarUnitId);
+    }
+    if (from || to) {
+      query.resolvedAt = {};
+      if (from) query.resolvedAt.$gte = from;
+      if (to) query.resolvedAt.$lte = to;
+    }
+
+    const [anomalies, byDetector, totalsByType] = await Promise.all([
+      Anomaly.find(query)
+        .populate("solarUnitId", "serialNumber capacity")
+        .sort({ resolvedAt: -1 })
+        .limit(500),
+      // Detectors sharing an anomaly type are told apart by their metadata
+      Anomaly.aggregate([
+        { $match: query },
+        {
+          $group: {
+            _id: {
+              anomalyType: "$anomalyType",
+              variant: { $ifNull: ["$metadata.errorType", { $ifNull: ["$metadata.pattern", null] }] },
+            },
+            count: { $sum: 1 },
+            solarUnits: { $addToSet: "$solarUnitId" },
+          },
+        },
+        { $sort: { count: -1 } },
+      ]),
+      Anomaly.aggregate([
+        { $match: query },
+        { $group: { _id: "$anomalyType", count: { $sum: 1 } } },
+      ]),
+    ]);
+
+    // Share of each type's closed anomalies that were false positives
+    const closedByType = await Anomaly.aggregate([
+      { $match: { status: { $in: ["RESOLVED", "FALSE_POSITIVE"] } } },
+      { $group: { _id: "$anomalyType", count: { $sum: 1 } } },
+    ]);
+    const closedCounts: Record<string, number> = {};
+    closedByType.forEach((entry) => {
+      closedCounts[entry._id] = entry.count;
+    });
+
+    res.status(200).json({
+      total: totalsByType.reduce((sum, entry) => sum + entry.count, 0),
+      byType: totalsByType.map((entry) => ({
+        anomalyType: entry._id,
+        count: entry.count,
+        falsePositiveRate: closedCounts[entry._id]
+          ? parseFloat(((entry.count / closedCounts[entry._id]) * 100).toFixed(1))
+          : null,
+      })),
+      byDetector: byDetector.map((entry) => ({
+        anomalyType: entry._id.anomalyType,
+        variant: entry._id.variant,
+        count: entry.count,
+        solarUnits: entry.solarUnits.length,
+      })),
+      anomalies,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,306 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { GetAnomalyTrendsQueryDto } from "../domain/dtos/anomaly";
+import { ValidationError } from "../domain/errors/error";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { getActor } from "./actor";
+import { getAnomalyTypeDisplayName, getAnomalyTypes } from "./detector-registry";
+
+/**
+ * Anomaly Trends
+ *
+ * Counts per week or month, response times, the most anomaly-prone units and
+ * the open backlog by age. Counts, response times and rankings cover anomalies
+ * detected in the requested window; the backlog is always the current one.
+ */
+
+type Granularity = "week" | "month";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const SEVERITIES = ["CRITICAL", "WARNING", "INFO"];
+
+// Open anomalies are bucketed by days since detection
+const BACKLOG_AGE_BUCKETS = [
+  { label: "<1d", maxDays: 1 },
+  { label: "1-7d", maxDays: 7 },
+  { label: "7-30d", maxDays: 30 },
+  { label: ">30d", maxDays: Infinity },
+];
+
+/**
+ * ISO week (e.g. "2026-W07") or month (e.g. "2026-02") a date falls in, in UTC
+ */
+const getPeriodKey = (date: Date, granularity: Granularity) => {
+  if (granularity === "month") {
+    return date.toISOString().slice(0, 7);
+  }
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((thursday.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+};
+
+/**
+ * Every period between from and to, so periods without anomalies still show up
+ */
+const getPeriodKeys = (from: Date, to: Date, granularity: Granularity) => {
+  const keys: string[] = [];
+  const cursor = new Date(from);
+  while (cursor <= to) {
+    const key = getPeriodKey(cursor, granularity);
+    if (keys[keys.length - 1] !== key) keys.push(key);
+    if (granularity === "month") {
+      cursor.setUTCDate(1);
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    } else {
+      cursor.setUTCDate(cursor.getUTCDate() + 7);
+    }
+  }
+  const last = getPeriodKey(to, granularity);
+  if (keys[keys.length - 1] !== last) keys.push(last);
+  return keys;
+};
+
+const emptyCounts = (keys: string[]) => {
+  const counts: Record<string, number> = {};
+  keys.forEach((key) => {
+    counts[key] = 0;
+  });
+  return counts;
+};
+
+const meanHours = (durations: number[]) =>
+  durations.length > 0
+    ? parseFloat((durations.reduce((sum, ms) => sum + ms, 0) / durations.length / HOUR_MS).toFixed(2))
+    : null;
+
+/**
+ * Time from detection to the first human status change out of OPEN
+ * Automatic changes (e.g. auto-resolution) do not count as an acknowledgement
+ */
+const getTimeToAcknowledge = (anomaly: any): number | null => {
+  const acknowledgement = (anomaly.statusHistory || []).find(
+    (change: any) => change.from === "OPEN" && change.changedBy !== "system"
+  );
+  return acknowledgement
+    ? new Date(acknowledgement.changedAt).getTime() - new Date(anomaly.detectionTimestamp).getTime()
+    : null;
+};
+
+const parseTrendsQuery = (params: Request["query"]) => {
+  const results = GetAnomalyTrendsQueryDto.safeParse(params);
+  if (!results.success) {
+    throw new ValidationError(results.error.message);
+  }
+  const { granularity, top } = results.data;
+
+  const to = results.data.to || new Date();
+  let from = results.data.from;
+  if (!from) {
+    // Default to the last 12 weeks or months
+    from = new Date(to);
+    if (granularity === "month") {
+      from.setUTCMonth(from.getUTCMonth() - 12);
+    } else {
+      from.setUTCDate(from.getUTCDate() - 12 * 7);
+    }
+  }
+  if (from >= to) {
+    throw new ValidationError("from must be before to");
+  }
+  if (to.getTime() - from.getTime() > 5 * 366 * DAY_MS) {
+    throw new ValidationError("The trend window cannot exceed 5 years");
+  }
+
+  return { granularity, from, to, top };
+};
+
+/**
+ * Computes anomaly trends for the given units, or the whole fleet when solarUnitIds is null
+ */
+export async function computeAnomalyTrends(
+  solarUnitIds: mongoose.Types.ObjectId[] | null,
+  { granularity, from, to, top }: { granularity: Granularity; from: Date; to: Date; top: number }
+) {
+  const scope: any = solarUnitIds ? { solarUnitId: { $in: solarUnitIds } } : {};
+
+  const [anomalies, openAnomalies] = await Promise.all([
+    Anomaly.find({ ...scope, detectionTimestamp: { $gte: from, $lte: to } })
+      .select("solarUnitId anomalyType severity status detectionTimestamp resolvedAt resolvedBy statusHistory")
+      .lean(),
+    Anomaly.find({ ...scope, resolved: false })
+      .select("severity detectionTimestamp")
+      .lean(),
+  ]);
+
+  // Counts per period, by type and by severity
+  const periodKeys = getPeriodKeys(from, to, granularity);
+  const anomalyTypes = getAnomalyTypes();
+  const totals = emptyCounts(periodKeys);
+  const byType: Record<string, Record<string, number>> = {};
+  const bySeverity: Record<string, Record<string, number>> = {};
+  anomalyTypes.forEach((type) => {
+    byType[type] = emptyCounts(periodKeys);
+  });
+  SEVERITIES.forEach((severity) => {
+    bySeverity[severity] = emptyCounts(periodKeys);
+  });
+
+  // Response times, overall and by type
+  const acknowledgeTimes: number[] = [];
+  const resolveTimes: number[] = [];
+  const autoResolveTimes: number[] = [];
+  const responseByType: Record<string, { acknowledge: number[]; resolve: number[] }> = {};
+
+  // Per-unit counts for the ranking
+  const byUnit: Record<string, { total: number; critical: number; open: number }> = {};
+
+  for (const anomaly of anomalies) {
+    const period = getPeriodKey(anomaly.detectionTimestamp, granularity);
+    const type = anomaly.anomalyType;
+    totals[period] = (totals[period] || 0) + 1;
+    byType[type] = byType[type] || emptyCounts(periodKeys);
+    byType[type][period] = (byType[type][period] || 0) + 1;
+    bySeverity[anomaly.severity][period] = (bySeverity[anomaly.severity][period] || 0) + 1;
+
+    responseByType[type] = responseByType[type] || { acknowledge: [], resolve: [] };
+    const timeToAcknowledge = getTimeToAcknowledge(anomaly);
+    if (timeToAcknowledge !== null) {
+      acknowledgeTimes.push(timeToAcknowledge);
+      responseByType[type].acknowledge.push(timeToAcknowledge);
+    }
+    // False positives were dismissed, not resolved
+    if (anomaly.status === "RESOLVED" && anomaly.resolvedAt) {
+      const timeToResolve = anomaly.resolvedAt.getTime() - anomaly.detectionTimestamp.getTime();
+      if (anomaly.resolvedBy === "system") {
+        autoResolveTimes.push(timeToResolve);
+      } else {
+        resolveTimes.push(timeToResolve);
+        responseByType[type].resolve.push(timeToResolve);
+      }
+    }
+
+    const unitId = anomaly.solarUnitId.toString();
+    byUnit[unitId] = byUnit[unitId] || { total: 0, critical: 0, open: 0 };
+    byUnit[unitId].total++;
+    if (anomaly.severity === "CRITICAL") byUnit[unitId].critical++;
+    if (anomaly.status !== "RESOLVED" && anomaly.status !== "FALSE_POSITIVE") byUnit[unitId].open++;
+  }
+
+  const topUnitIds = Object.keys(byUnit)
+    .sort((a, b) => byUnit[b].total - byUnit[a].total || byUnit[b].critical - byUnit[a].critical)
+    .slice(0, top);
+  const topUnits = await SolarUnit.find({ _id: { $in: topUnitIds } }).select("serialNumber capacity");
+  const unitById: Record<string, (typeof topUnits)[number]> = {};
+  topUnits.forEach((unit) => {
+    unitById[unit._id.toString()] = unit;
+  });
+
+  // Current backlog by age
+  const now = Date.now();
+  const backlog = BACKLOG_AGE_BUCKETS.map((bucket) => ({
+    age: bucket.label,
+    count: 0,
+    bySeverity: { CRITICAL: 0, WARNING: 0, INFO: 0 } as Record<string, number>,
+  }));
+  let oldestOpenAt: Date | null = null;
+  for (const anomaly of openAnomalies) {
+    const ageDays = (now - anomaly.detectionTimestamp.getTime()) / DAY_MS;
+    const index = BACKLOG_AGE_BUCKETS.findIndex((bucket) => ageDays < bucket.maxDays);
+    backlog[index].count++;
+    backlog[index].bySeverity[anomaly.severity]++;
+    if (!oldestOpenAt || anomaly.detectionTimestamp < oldestOpenAt) {
+      oldestOpenAt = anomaly.detectionTimestamp;
+    }
+  }
+
+  return {
+    window: { from, to, granularity },
+    total: anomalies.length,
+    periods: periodKeys.map((period) => ({
+      period,
+      total: totals[period],
+      byType: Object.keys(byType).reduce(
+        (counts, type) => ({ ...counts, [type]: byType[type][period] || 0 }),
+        {} as Record<string, number>
+      ),
+      bySeverity: SEVERITIES.reduce(
+        (counts, severity) => ({ ...counts, [severity]: bySeverity[severity][period] || 0 }),
+        {} as Record<string, number>
+      ),
+    })),
+    responseTimes: {
+      meanTimeToAcknowledgeHours: meanHours(acknowledgeTimes),
+      acknowledgedCount: acknowledgeTimes.length,
+      // Manual resolutions only; auto-resolution reflects recovery, not response
+      meanTimeToResolveHours: meanHours(resolveTimes),
+      resolvedCount: resolveTimes.length,
+      meanTimeToAutoResolveHours: meanHours(autoResolveTimes),
+      autoResolvedCount: autoResolveTimes.length,
+      byType: Object.keys(responseByType).map((type) => ({
+        anomalyType: type,
+        name: getAnomalyTypeDisplayName(type),
+        meanTimeToAcknowledgeHours: meanHours(responseByType[type].acknowledge),
+        meanTimeToResolveHours: meanHours(responseByType[type].resolve),
+        resolvedCount: responseByType[type].resolve.length,
+      })),
+    },
+    mostAnomalyProneUnits: topUnitIds.map((id) => ({
+      solarUnitId: id,
+      serialNumber: unitById[id]?.serialNumber ?? null,
+      capacity: unitById[id]?.capacity ?? null,
+      ...byUnit[id],
+    })),
+    backlog: {
+      total: openAnomalies.length,
+      oldestOpenAt,
+      byAge: backlog,
+    },
+  };
+}
+
+/**
+ * Get anomaly trends for the signed-in user's solar units
+ */
+export const getAnomalyTrendsForUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const options = parseTrendsQuery(req.query);
+    const actor = await getActor(req);
+
+    const solarUnits = await SolarUnit.find({ userId: actor.user._id }).select("_id");
+    const trends = await computeAnomalyTrends(
+      solarUnits.map((su) => su._id),
+      options
+    );
+
+    res.status(200).json(trends);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get fleet-wide anomaly trends (admin only)
+ */
+export const getFleetAnomalyTrends = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const options = parseTrendsQuery(req.query);
+    const trends = await computeAnomalyTrends(null, options);
+
+    res.status(200).json(trends);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,346 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { getAuth } from "@clerk/express";
+import { BackfillDto } from "../domain/dtos/sync";
+import { ConflictError, NotFoundError, ValidationError } from "../domain/errors/error";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { SyncRun } from "../infrastructure/entities/SyncRun";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { Invoice } from "../infrastructure/entities/Invoice";
+import { detectAllAnomalies, getDetectionLookbackDays, markDetectionDirty } from "./anomaly-detection";
+import { INCLUDED_RECORDS_FILTER } from "./energy-generation-record";
+import {
+  EnergyRecordInput,
+  SyncResult,
+  acquireSyncLease,
+  getDataApiClient,
+  releaseSyncLease,
+  upsertEnergyGenerationRecords,
+} from "./sync";
+
+/**
+ * Historical Backfill
+ *
+ * Re-imports a unit's [from, to] range from the Data API. In merge mode new
+ * records are inserted and changed ones updated; replace mode also deletes
+ * local records the Data API no longer has. Both are idempotent, so a backfill
+ * can safely be re-run. Invoices whose billed total no longer matches the
+ * recomputed total are flagged for review. With dryRun nothing is written and
+ * the same report is produced.
+ *
+ * Backfills run in the background as BACKFILL sync runs, which carry the report
+ * once finished. While writing they hold the unit's sync lease, so a backfill
+ * and a sync of the same unit never write its records at the same time.
+ */
+
+// Differences below this are rounding, not corrections (kWh)
+const ENERGY_TOLERANCE = 0.01;
+
+// How long a backfill waits for a running sync or backfill of the unit to finish
+const LEASE_WAIT_MS = 5 * 60 * 1000;
+const LEASE_POLL_MS = 5 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface BackfillRequest {
+  from: Date;
+  to: Date;
+  mode: "merge" | "replace";
+  dryRun: boolean;
+}
+
+const waitForSyncLease = async (solarUnitId: string): Promise<Date | null> => {
+  const deadline = Date.now() + LEASE_WAIT_MS;
+  for (;;) {
+    const lease = await acquireSyncLease(solarUnitId);
+    if (lease || Date.now() >= deadline) return lease;
+    await new Promise((resolve) => setTimeout(resolve, LEASE_POLL_MS));
+  }
+};
+
+/**
+ * Backfill a date range for a solar unit (admin only)
+ * Responds immediately with the RUNNING sync run - poll GET /api/sync/runs/:id for the report
+ */
+export const backfillSolarUnit = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const results = BackfillDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+
+    const solarUnit = await SolarUnit.findById(id);
+    if (!solarUnit) {
+      throw new NotFoundError("Solar unit not found");
+    }
+
+    const auth = getAuth(req);
+    const syncRun = await SyncRun.create({
+      trigger: "BACKFILL",
+      triggeredBy: auth.userId || undefined,
+      backfill: results.data,
+    });
+
+    res.status(202).json(syncRun);
+
+    executeBackfill(syncRun, solarUnit, results.data).catch((error) =>
+      console.error(`Backfill run ${syncRun._id} failed:`, error)
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Runs a backfill and records its report and outcome on the run
+ */
+const executeBackfill = async (
+  run: InstanceType<typeof SyncRun>,
+  solarUnit: { _id: mongoose.Types.ObjectId; serialNumber: string },
+  { from, to, mode, dryRun }: BackfillRequest
+) => {
+  const id = solarUnit._id.toString();
+  const result: SyncResult = {
+    solarUnitId: id,
+    serialNumber: solarUnit.serialNumber,
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    fetched: 0,
+    inserted: 0,
+    skipped: 0,
+  };
+
+  let lease: Date | null = null;
+  try {
+    // Dry runs only read, so they don't need the lease
+    if (!dryRun) {
+      lease = await waitForSyncLease(id);
+      if (!lease) {
+        throw new ConflictError("A sync or backfill of this solar unit is already running");
+      }
+    }
+
+    // Upstream records in the window, keyed by timestamp
+    const upstream = new Map<number, EnergyRecordInput>();
+    let invalid = 0;
+    const pages = getDataApiClient().fetchRecordPages(
+      solarUnit.serialNumber,
+      new Date(from.getTime() - 1),
+      to
+    );
+    for await (const page of pages) {
+      invalid += page.invalid;
+      for (const record of page.records) {
+        const timestamp = new Date(record.timestamp);
+        upstream.set(timestamp.getTime(), {
+          energyGenerated: record.energyGenerated,
+          timestamp,
+          intervalHours: record.intervalHours,
+        });
+      }
+    }
+
+    const localRecords = await EnergyGenerationRecord.find({
+      solarUnitId: solarUnit._id,
+      timestamp: { $gte: from, $lte: to },
+    }).lean();
+
+    const toInsert: EnergyRecordInput[] = [];
+    const toUpdate: (EnergyRecordInput & { previousEnergyGenerated: number })[] = [];
+    const toDelete: { _id: mongoose.Types.ObjectId; timestamp: Date; energyGenerated: number }[] = [];
+    let unchanged = 0;
+    // Records an admin has corrected are never overwritten or deleted by a backfill
+    let preserved = 0;
+
+    // Projected energy per timestamp in the window once the backfill is applied
+    const projected = new Map<number, number>();
+
+    const localByTimestamp = new Map<number, (typeof localRecords)[number]>();
+    for (const record of localRecords) {
+      localByTimestamp.set(record.timestamp.getTime(), record);
+      if (!record.excluded) {
+        projected.set(record.timestamp.getTime(), record.energyGenerated);
+      }
+    }
+
+    upstream.forEach((record, timestamp) => {
+      const local = localByTimestamp.get(timestamp);
+      if (local?.corrected) {
+        preserved++;
+        return;
+      }
+      projected.set(timestamp, record.energyGenerated);
+
+      if (!local) {
+        toInsert.push(record);
+      } else if (
+        Math.abs(local.energyGenerated - record.energyGenerated) > Number.EPSILON ||
+        local.intervalHours !== record.intervalHours
+      ) {
+        toUpdate.push({ ...record, previousEnergyGenerated: local.energyGenerated });
+      } else {
+        unchanged++;
+      }
+    });
+
+    if (mode === "replace") {
+      for (const record of localRecords) {
+        if (!record.corrected && !upstream.has(record.timestamp.getTime())) {
+          toDelete.push({ _id: record._id, timestamp: record.timestamp, energyGenerated: record.energyGenerated });
+          projected.delete(record.timestamp.getTime());
+        }
+      }
+    }
+
+    // Invoices billed on any part of the window
+    const invoices = await Invoice.find({
+      solarUnitId: solarUnit._id,
+      billingPeriodStart: { $lte: to },
+      billingPeriodEnd: { $gte: from },
+    });
+
+    const invoiceChanges = [];
+    for (const invoice of invoices) {
+      const periodStart = invoice.billingPeriodStart.getTime();
+      const periodEnd = invoice.billingPeriodEnd.getTime();
+
+      // Energy outside the window is unaffected by the backfill
+      const [outside] = await EnergyGenerationRecord.aggregate([
+        {
+          $match: {
+            solarUnitId: solarUnit._id,
+            timestamp: { $gte: invoice.billingPeriodStart, $lte: invoice.billingPeriodEnd },
+            $or: [{ timestamp: { $lt: from } }, { timestamp: { $gt: to } }],
+            ...INCLUDED_RECORDS_FILTER,
+          },
+        },
+        { $group: { _id: null, totalEnergy: { $sum: "$energyGenerated" } } },
+      ]);
+
+      let inside = 0;
+      projected.forEach((energy, timestamp) => {
+        if (timestamp >= periodStart && timestamp <= periodEnd) inside += energy;
+      });
+
+      const recomputed = round((outside?.totalEnergy || 0) + inside);
+      if (Math.abs(recomputed - invoice.totalEnergyGenerated) > ENERGY_TOLERANCE) {
+        invoiceChanges.push({
+          invoiceId: invoice._id,
+          billingPeriodStart: invoice.billingPeriodStart,
+          billingPeriodEnd: invoice.billingPeriodEnd,
+          paymentStatus: invoice.paymentStatus,
+          billedEnergyGenerated: invoice.totalEnergyGenerated,
+          recomputedEnergyGenerated: recomputed,
+          difference: round(recomputed - invoice.totalEnergyGenerated),
+        });
+      }
+    }
+
+    const report = {
+      solarUnitId: id,
+      serialNumber: solarUnit.serialNumber,
+      from,
+      to,
+      mode,
+      dryRun,
+      upstreamRecords: upstream.size,
+      invalidUpstreamRecords: invalid,
+      localRecords: localRecords.length,
+      diff: {
+        inserted: toInsert.length,
+        updated: toUpdate.length,
+        deleted: toDelete.length,
+        unchanged,
+        preserved,
+        energyBefore: round(
+          localRecords.reduce((sum, r) => sum + (r.excluded ? 0 : r.energyGenerated), 0)
+        ),
+        energyAfter: round(Array.from(projected.values()).reduce((sum, e) => sum + e, 0)),
+        updates: toUpdate,
+        deletions: toDelete,
+      },
+      flaggedInvoices: invoiceChanges,
+    };
+
+    result.fetched = upstream.size + invalid;
+    result.skipped = invalid;
+    run.set("backfill.report", report);
+
+    if (!dryRun) {
+      await upsertEnergyGenerationRecords(solarUnit._id, [...toInsert, ...toUpdate], { overwrite: true });
+      if (toDelete.length > 0) {
+        await EnergyGenerationRecord.deleteMany({ _id: { $in: toDelete.map((r) => r._id) } });
+        // Upserted records are marked for detection already, deletions are not
+        await markDetectionDirty(id, from);
+      }
+
+      const flaggedAt = new Date();
+      for (const change of invoiceChanges) {
+        await Invoice.findByIdAndUpdate(change.invoiceId, {
+          reviewFlag: {
+            flaggedAt,
+            recomputedEnergyGenerated: change.recomputedEnergyGenerated,
+            reason: `Backfill of ${from.toISOString()} - ${to.toISOString()} changed the total by ${change.difference} kWh`,
+          },
+        });
+      }
+
+
+      result.inserted = toInsert.length;
+
+      // The records are stored either way, so a detection failure does not fail the backfill
+      try {
+        // Look back before the window for context, but only report anomalies touching it
+        const summary = await detectAllAnomalies(id, {
+          from: new Date(from.getTime() - getDetectionLookbackDays() * 24 * 60 * 60 * 1000),
+          to,
+          reportFrom: from,
+        });
+        if (!summary) {
+          result.detectionError = "Anomaly detection failed or was already running; the records are analyzed on the next run";
+        }
+      } catch (error: any) {
+        result.detectionError = error?.message || String(error);
+        console.error(`Anomaly detection failed after backfilling solar unit ${solarUnit.serialNumber}:`, error);
+      }
+
+      console.log(
+        `Backfilled solar unit ${solarUnit.serialNumber} (${mode}): ${toInsert.length} inserted, ${toUpdate.length} updated, ${toDelete.length} deleted, ${invoiceChanges.length} invoices flagged`
+      );
+    }
+  } catch (error: any) {
+    result.error = error?.message || String(error);
+    console.error(`Backfill failed for solar unit ${solarUnit.serialNumber}:`, error);
+  } finally {
+    if (lease) {
+      await releaseSyncLease(id, lease).catch((error) =>
+        console.error(`Failed to release the sync lease for solar unit ${solarUnit.serialNumber}:`, error)
+      );
+    }
+  }
+
+  result.finishedAt = new Date();
+  run.set({
+    units: [{ ...result, solarUnitId: solarUnit._id }],
+    totals: {
+      fetched: result.fetched,
+      inserted: result.inserted,
+      skipped: result.skipped,
+      failedUnits: result.error ? 1 : 0,
+    },
+    status: result.error ? "FAILED" : "SUCCEEDED",
+    finishedAt: new Date(),
+  });
+  await run.save();
+
+  return run;
+};
@@ -0,0 +1,15 @@
+import { deliverDueDeliveries } from "../notifications";
+
+/**
+ * Background job to send queued notification deliveries and retry failed ones whose backoff has elapsed
+ */
+export const deliverNotifications = async () => {
+  try {
+    const attempted = await deliverDueDeliveries();
+    if (attempted > 0) {
+      console.log(`[${new Date().toISOString()}] Attempted ${attempted} notification deliveries`);
+    }
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Notification delivery failed:`, error);
+  }
+};
@@ -1,5 +1,5 @@
 import { SolarUnit } from "../../infrastructure/entities/SolarUnit";
-import { detectAllAnomalies } from "../anomaly-detection";
+import { detectNewAnomalies } from "../anomaly-detection";
 
 /**
  * Background job to detect anomalies for all solar units
@@ -12,7 +12,7 @@ export const runAnomalyDetection = async () => {
     const solarUnits = await SolarUnit.find({ status: "ACTIVE" });
     
     for (const solarUnit of solarUnits) {
-      await detectAllAnomalies(solarUnit._id.toString());
+      await detectNewAnomalies(solarUnit._id.toString());
     }
     
     console.log(`[${new Date().toISOString()}] Anomaly detection completed for ${solarUnits.length} solar units`);
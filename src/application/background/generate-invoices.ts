@@ -1,7 +1,9 @@
 import { Invoice } from "../../infrastructure/entities/Invoice";
 import { SolarUnit } from "../../infrastructure/entities/SolarUnit";
 import { EnergyGenerationRecord } from "../../infrastructure/entities/EnergyGenerationRecord";
+import { INCLUDED_RECORDS_FILTER } from "../energy-generation-record";
 import { User } from "../../infrastructure/entities/User";
+import { calculateEnvironmentalImpact } from "../impact";
 
 /**
  * Generates invoices for all active solar units
@@ -79,6 +81,7 @@ export const generateInvoices = async () => {
             $gte: currentPeriodStart,
             $lte: currentPeriodEnd,
           },
+          ...INCLUDED_RECORDS_FILTER,
         });
 
         const totalEnergyGenerated = energyRecords.reduce(
@@ -88,6 +91,9 @@ export const generateInvoices = async () => {
 
         // Only create invoice if there's energy generated
         if (totalEnergyGenerated > 0) {
+          const { emissionFactor, co2AvoidedKg, treesPlanted, carKmAvoided } =
+            calculateEnvironmentalImpact(totalEnergyGenerated, solarUnit.region);
+
           await Invoice.create({
             solarUnitId: solarUnit._id,
             userId: solarUnit.userId,
@@ -95,6 +101,7 @@ export const generateInvoices = async () => {
             billingPeriodEnd: currentPeriodEnd,
             totalEnergyGenerated: Math.round(totalEnergyGenerated * 100) / 100, // Round to 2 decimal places
             paymentStatus: "PENDING",
+            environmentalImpact: { emissionFactor, co2AvoidedKg, treesPlanted, carKmAvoided },
           });
 
           console.log(
@@ -0,0 +1,257 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { GetCompletenessQueryDto } from "../domain/dtos/solar-unit";
+import { ValidationError } from "../domain/errors/error";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { INCLUDED_RECORDS_FILTER } from "./energy-generation-record";
+import { findSolarUnitForActor, getActor } from "./actor";
+
+/**
+ * Data Completeness
+ *
+ * Walks a unit's records in time order and treats each record as covering
+ * [timestamp, timestamp + intervalHours). Anything not covered is a gap,
+ * anything covered twice is an overlap, and identical timestamps are duplicates.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Days below this completeness (%) are treated as incomplete rather than low production
+export const MIN_DAY_COMPLETENESS = 80;
+// Gaps and overlaps shorter than this are clock jitter, not missing data
+const TOLERANCE_MS = 60 * 1000;
+// The report walks every day of the window, so the window is capped
+const MAX_REPORT_DAYS = 366;
+
+interface CompletenessRecord {
+  timestamp: Date;
+  intervalHours: number;
+  energyGenerated: number;
+}
+
+export interface DataGap {
+  start: Date;
+  end: Date;
+  missingHours: number;
+}
+
+export interface DataOverlap {
+  timestamp: Date;
+  overlapsWith: Date;
+  overlapHours: number;
+}
+
+export interface DailyCompleteness {
+  date: string;
+  coveredHours: number;
+  completeness: number; // %
+}
+
+export interface SeriesPoint {
+  timestamp: Date;
+  energyGenerated: number;
+  intervalHours: number;
+  estimated: boolean;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Finds gaps, overlaps and duplicate timestamps and reports per-day completeness
+ * @param records - records sorted by timestamp ascending
+ */
+export function analyzeCompleteness(records: CompletenessRecord[], from: Date, to: Date) {
+  const gaps: DataGap[] = [];
+  const overlaps: DataOverlap[] = [];
+  const duplicates: { timestamp: Date; count: number }[] = [];
+
+  // Collapse duplicate timestamps first - they are reported, not double counted
+  const unique: CompletenessRecord[] = [];
+  for (const record of records) {
+    const last = unique[unique.length - 1];
+    if (last && last.timestamp.getTime() === record.timestamp.getTime()) {
+      const duplicate = duplicates[duplicates.length - 1];
+      if (duplicate && duplicate.timestamp.getTime() === record.timestamp.getTime()) {
+        duplicate.count++;
+      } else {
+        duplicates.push({ timestamp: record.timestamp, count: 2 });
+      }
+      continue;
+    }
+    unique.push(record);
+  }
+
+  // Covered intervals, merged as we go, for the per-day coverage below
+  const covered: { start: number; end: number }[] = [];
+  let cursor = from.getTime();
+
+  for (let i = 0; i < unique.length; i++) {
+    const record = unique[i];
+    const start = record.timestamp.getTime();
+    const end = start + record.intervalHours * HOUR_MS;
+
+    if (start - cursor > TOLERANCE_MS) {
+      gaps.push({
+        start: new Date(cursor),
+        end: record.timestamp,
+        missingHours: round((start - cursor) / HOUR_MS),
+      });
+    } else if (i > 0 && cursor - start > TOLERANCE_MS) {
+      overlaps.push({
+        timestamp: record.timestamp,
+        overlapsWith: unique[i - 1].timestamp,
+        overlapHours: round((Math.min(cursor, end) - start) / HOUR_MS),
+      });
+    }
+
+    const last = covered[covered.length - 1];
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      covered.push({ start, end });
+    }
+    cursor = Math.max(cursor, end);
+  }
+
+  if (to.getTime() - cursor > TOLERANCE_MS) {
+    gaps.push({
+      start: new Date(cursor),
+      end: to,
+      missingHours: round((to.getTime() - cursor) / HOUR_MS),
+    });
+  }
+
+  const daily: DailyCompleteness[] = [];
+  const firstDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  for (let dayStart = firstDay; dayStart < to.getTime(); dayStart += DAY_MS) {
+    // Only the part of the day inside [from, to] is expected to have data
+    const expectedStart = Math.max(dayStart, from.getTime());
+    const expectedEnd = Math.min(dayStart + DAY_MS, to.getTime());
+    const coveredMs = covered.reduce(
+      (sum, c) => sum + Math.max(0, Math.min(c.end, expectedEnd) - Math.max(c.start, expectedStart)),
+      0
+    );
+
+    daily.push({
+      date: new Date(dayStart).toISOString().slice(0, 10),
+      coveredHours: round(coveredMs / HOUR_MS),
+      completeness: round((coveredMs / (expectedEnd - expectedStart)) * 100),
+    });
+  }
+
+  const totalCoveredHours = daily.reduce((sum, day) => sum + day.coveredHours, 0);
+  const expectedHours = (to.getTime() - from.getTime()) / HOUR_MS;
+
+  return {
+    completeness: expectedHours > 0 ? round((totalCoveredHours / expectedHours) * 100) : 100,
+    recordCount: records.length,
+    gaps,
+    overlaps,
+    duplicates,
+    daily,
+  };
+}
+
+/**
+ * Fills gaps with linearly interpolated readings, flagged as estimated
+ * Each gap is split into slots of the preceding record's interval
+ * @param records - records sorted by timestamp ascending, without duplicates
+ */
+export function fillGaps(records: CompletenessRecord[]): SeriesPoint[] {
+  const series: SeriesPoint[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    series.push({
+      timestamp: record.timestamp,
+      energyGenerated: record.energyGenerated,
+      intervalHours: record.intervalHours,
+      estimated: false,
+    });
+
+    const next = records[i + 1];
+    if (!next) break;
+
+    const slotMs = record.intervalHours * HOUR_MS;
+    const gapStart = record.timestamp.getTime() + slotMs;
+    const gapEnd = next.timestamp.getTime();
+    const slots = Math.floor((gapEnd - gapStart + TOLERANCE_MS) / slotMs);
+
+    for (let slot = 0; slot < slots; slot++) {
+      const fraction = (slot + 1) / (slots + 1);
+      series.push({
+        timestamp: new Date(gapStart + slot * slotMs),
+        energyGenerated: round(
+          record.energyGenerated + (next.energyGenerated - record.energyGenerated) * fraction
+        ),
+        intervalHours: record.intervalHours,
+        estimated: true,
+      });
+    }
+  }
+
+  return series;
+}
+
+/**
+ * Get a completeness report for a solar unit's records
+ * With fill=true, also returns a gap-filled series
+ */
+export const getCompletenessBySolarUnitId = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const results = GetCompletenessQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+
+    const solarUnit = await findSolarUnitForActor(id, await getActor(req));
+
+    const to = results.data.to || new Date();
+    const from = results.data.from || new Date(to.getTime() - 30 * DAY_MS);
+    if (from >= to) {
+      throw new ValidationError("from must be before to");
+    }
+    if (to.getTime() - from.getTime() > MAX_REPORT_DAYS * DAY_MS) {
+      throw new ValidationError(`A completeness report cannot cover more than ${MAX_REPORT_DAYS} days`);
+    }
+
+    const records = await EnergyGenerationRecord.find({
+      solarUnitId: id,
+      timestamp: { $gte: from, $lte: to },
+      ...INCLUDED_RECORDS_FILTER,
+    })
+      .sort({ timestamp: 1 })
+      .select("timestamp intervalHours energyGenerated")
+      .lean();
+
+    const rows = records.map((r) => ({
+      timestamp: r.timestamp,
+      intervalHours: r.intervalHours ?? 2,
+      energyGenerated: r.energyGenerated,
+    }));
+    const report = analyzeCompleteness(rows, from, to);
+
+    res.status(200).json({
+      solarUnitId: id,
+      from,
+      to,
+      ...report,
+      ...(results.data.fill && {
+        series: fillGaps(
+          rows.filter((r, i) => i === 0 || r.timestamp.getTime() !== rows[i - 1].timestamp.getTime())
+        ),
+      }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,181 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { getAuth } from "@clerk/express";
+import { NotFoundError, ValidationError } from "../domain/errors/error";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { User } from "../infrastructure/entities/User";
+import { aggregateEnergyGenerationRecords } from "./energy-generation-record";
+
+/**
+ * Long-term Degradation Analysis
+ *
+ * Uses the year-over-year method: each calendar month's average daily specific
+ * yield (kWh/kWp) is compared with the same month one year earlier, which
+ * cancels out seasonality. The median of those ratios gives the annual
+ * degradation rate, robust against single cloudy or outage-heavy months.
+ */
+
+// Months with fewer days of data are too noisy to compare
+const MIN_DAYS_PER_MONTH = 15;
+const DEFAULT_WARRANTY_THRESHOLD = 0.7; // % per year
+
+export interface YearOverYearComparison {
+  month: string; // YYYY-MM
+  specificYield: number; // average kWh/kWp per day
+  previousSpecificYield: number;
+  ratio: number;
+}
+
+export interface DegradationAnalysis {
+  degradationRate: number | null; // % output lost per year, null without a full year of history
+  monthsCompared: number;
+  firstComparedMonth: string | null;
+  lastComparedMonth: string | null;
+  yearOverYear: YearOverYearComparison[];
+  warrantyThreshold: number;
+  exceedsWarranty: boolean;
+}
+
+/**
+ * Annual degradation rate (%) above which a DEGRADATION anomaly is raised
+ */
+export const getWarrantyDegradationThreshold = (): number => {
+  const threshold = parseFloat(process.env.DEGRADATION_WARRANTY_THRESHOLD || "");
+  return Number.isFinite(threshold) ? threshold : DEFAULT_WARRANTY_THRESHOLD;
+};
+
+export const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Computes the degradation rate from daily totals
+ * @param records - daily records shaped like the anomaly detection input ({ _id: { date }, totalEnergy })
+ * @param capacity - unit capacity in W
+ * @param warrantyThreshold - annual degradation rate (%) considered a warranty breach
+ */
+export function analyzeDegradation(
+  records: any[],
+  capacity: number,
+  warrantyThreshold: number = getWarrantyDegradationThreshold()
+): DegradationAnalysis {
+  const capacityInKW = capacity / 1000;
+
+  const months: Record<string, { total: number; days: number }> = {};
+  for (const record of records) {
+    const month = String(record._id.date).slice(0, 7);
+    months[month] = months[month] || { total: 0, days: 0 };
+    months[month].total += record.totalEnergy || 0;
+    months[month].days++;
+  }
+
+  const specificYield = (month: string) => {
+    const data = months[month];
+    if (!data || data.days < MIN_DAYS_PER_MONTH || capacityInKW <= 0) return null;
+    return data.total / data.days / capacityInKW;
+  };
+
+  const yearOverYear: YearOverYearComparison[] = [];
+  for (const month of Object.keys(months).sort()) {
+    const [year, monthOfYear] = month.split("-");
+    const previousMonth = `${parseInt(year) - 1}-${monthOfYear}`;
+    const current = specificYield(month);
+    const previous = specificYield(previousMonth);
+
+    if (current !== null && previous !== null && previous > 0) {
+      yearOverYear.push({
+        month,
+        specificYield: parseFloat(current.toFixed(3)),
+        previousSpecificYield: parseFloat(previous.toFixed(3)),
+        ratio: parseFloat((current / previous).toFixed(4)),
+      });
+    }
+  }
+
+  if (yearOverYear.length === 0) {
+    return {
+      degradationRate: null,
+      monthsCompared: 0,
+      firstComparedMonth: null,
+      lastComparedMonth: null,
+      yearOverYear,
+      warrantyThreshold,
+      exceedsWarranty: false,
+    };
+  }
+
+  const degradationRate = parseFloat(
+    ((1 - median(yearOverYear.map((c) => c.ratio))) * 100).toFixed(2)
+  );
+
+  return {
+    degradationRate,
+    monthsCompared: yearOverYear.length,
+    firstComparedMonth: yearOverYear[0].month,
+    lastComparedMonth: yearOverYear[yearOverYear.length - 1].month,
+    yearOverYear,
+    warrantyThreshold,
+    exceedsWarranty: degradationRate > warrantyThreshold,
+  };
+}
+
+const getDegradationForSolarUnit = async (solarUnit: { _id: mongoose.Types.ObjectId; capacity: number }) => {
+  const records = await aggregateEnergyGenerationRecords(solarUnit._id.toString(), { groupBy: "day" });
+  return {
+    solarUnitId: solarUnit._id,
+    ...analyzeDegradation(records, solarUnit.capacity),
+  };
+};
+
+/**
+ * Get the degradation analysis for a solar unit (admin only)
+ */
+export const getDegradationBySolarUnitId = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const solarUnit = await SolarUnit.findById(id);
+    if (!solarUnit) {
+      throw new NotFoundError("Solar unit not found");
+    }
+
+    res.status(200).json(await getDegradationForSolarUnit(solarUnit));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the degradation analysis for the authenticated user's solar unit
+ */
+export const getDegradationForUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const auth = getAuth(req);
+    const user = await User.findOne({ clerkUserId: auth.userId });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const solarUnit = await SolarUnit.findOne({ userId: user._id });
+    if (!solarUnit) {
+      throw new NotFoundError("Solar unit not found");
+    }
+
+    res.status(200).json(await getDegradationForSolarUnit(solarUnit));
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,311 @@
+import { NextFunction, Request, Response } from "express";
+import { getAuth } from "@clerk/express";
+import mongoose from "mongoose";
+import { z } from "zod";
+import {
+  DetectionThresholdOverridesDto,
+  DetectionThresholdsDto,
+} from "../domain/dtos/detection-config";
+import { NotFoundError, ValidationError } from "../domain/errors/error";
+import { DetectionConfig } from "../infrastructure/entities/DetectionConfig";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { MIN_DAY_COMPLETENESS } from "./completeness";
+import { getWarrantyDegradationThreshold } from "./degradation";
+import { describeDetectors, getDetector } from "./detector-registry";
+
+/**
+ * Anomaly Detection Configuration
+ *
+ * Detector thresholds resolve in three layers: built-in defaults, the persisted
+ * fleet config, and per-unit overrides. Both persisted layers are versioned and
+ * the versions are stamped on every anomaly they produce.
+ */
+
+export type DetectionThresholds = z.infer<typeof DetectionThresholdsDto>;
+export type DetectionThresholdOverrides = z.infer<typeof DetectionThresholdOverridesDto>;
+
+export interface DetectionConfigVersion {
+  fleet: number;
+  unit: number | null;
+}
+
+export interface ResolvedDetectionConfig {
+  thresholds: DetectionThresholds;
+  version: DetectionConfigVersion;
+}
+
+/**
+ * Built-in thresholds, used until an admin saves a fleet config
+ */
+export const getDefaultDetectionThresholds = (): DetectionThresholds => ({
+  mechanical: {
+    zeroPreviousRatio: 0.3,
+    dropRatio: 0.3,
+    dropAverageRatio: 0.5,
+    criticalDropPercent: 80,
+  },
+  temperature: {
+    windowDays: 7,
+    daylightHours: 8,
+    expectedRatio: 0.6,
+    warningEfficiencyPercent: 40,
+  },
+  shading: {
+    minDays: 5,
+    peakDays: 3,
+    baselineRatio: 0.7,
+    lowDayRatio: 0.75,
+    minLowDays: 3,
+    warningReductionPercent: 40,
+  },
+  sensorError: {
+    minDays: 3,
+    maxDaylightHours: 10,
+    maxFactor: 1.2,
+    iqrMultiplier: 1.5,
+  },
+  degradation: {
+    warrantyThreshold: getWarrantyDegradationThreshold(),
+    criticalMultiplier: 2,
+  },
+  dataGap: {
+    minDayCompleteness: MIN_DAY_COMPLETENESS,
+  },
+  intraday: {
+    daylightStartHour: 8,
+    daylightEndHour: 16,
+    daylightMarginHours: 1.5,
+    minOutageHours: 2,
+    flatlineMinHours: 4,
+    clippingMinHours: 2,
+    clippingCapacityRatio: 0.6,
+    clippingTolerance: 0.02,
+  },
+  autoResolve: {
+    recoveryDays: 3,
+    recoveryRatio: 0.8,
+  },
+  belowAverage: {
+    deviationPercent: 40,
+    warningDeviationPercent: 60,
+  },
+  peerComparison: {
+    peerGroup: "REGION",
+    minPeers: 5,
+    zScoreThreshold: 3,
+    criticalZScore: 6,
+    minDeviationPercent: 25,
+  },
+  detectors: {},
+});
+
+/**
+ * Merges overrides over a base config one detector section at a time
+ */
+export const mergeDetectionThresholds = (
+  base: DetectionThresholds,
+  overrides: DetectionThresholdOverrides = {}
+): DetectionThresholds => ({
+  mechanical: { ...base.mechanical, ...overrides.mechanical },
+  temperature: { ...base.temperature, ...overrides.temperature },
+  shading: { ...base.shading, ...overrides.shading },
+  sensorError: { ...base.sensorError, ...overrides.sensorError },
+  degradation: { ...base.degradation, ...overrides.degradation },
+  dataGap: { ...base.dataGap, ...overrides.dataGap },
+  intraday: { ...base.intraday, ...overrides.intraday },
+  autoResolve: { ...base.autoResolve, ...overrides.autoResolve },
+  belowAverage: { ...base.belowAverage, ...overrides.belowAverage },
+  peerComparison: { ...base.peerComparison, ...overrides.peerComparison },
+  detectors: { ...base.detectors, ...overrides.detectors },
+});
+
+const getFleetConfig = async () => {
+  const fleet = await DetectionConfig.findOne({ scope: "FLEET" }).lean();
+  return {
+    // Stored fleet thresholds are merged over the defaults so newly added parameters get a value
+    thresholds: mergeDetectionThresholds(getDefaultDetectionThresholds(), fleet?.thresholds),
+    version: fleet?.version ?? 0,
+    updatedBy: fleet?.updatedBy ?? null,
+    updatedAt: fleet?.updatedAt ?? null,
+  };
+};
+
+/**
+ * Effective thresholds for a solar unit
+ */
+export const getDetectionConfig = async (solarUnitId: string): Promise<ResolvedDetectionConfig> => {
+  const [fleet, unit] = await Promise.all([
+    getFleetConfig(),
+    DetectionConfig.findOne({ scope: "UNIT", solarUnitId }).lean(),
+  ]);
+
+  return {
+    thresholds: mergeDetectionThresholds(fleet.thresholds, unit?.thresholds),
+    version: { fleet: fleet.version, unit: unit?.version ?? null },
+  };
+};
+
+const parseOverrides = (body: unknown) => {
+  const results = DetectionThresholdOverridesDto.safeParse(body);
+  if (!results.success) {
+    throw new ValidationError(results.error.message);
+  }
+  const unknownDetectors = Object.keys(results.data.detectors || {}).filter((id) => !getDetector(id));
+  if (unknownDetectors.length > 0) {
+    throw new ValidationError(`Unknown detector(s): ${unknownDetectors.join(", ")}`);
+  }
+  return results.data;
+};
+
+/**
+ * Get the fleet detection config and the registered detectors (admin only)
+ */
+export const getFleetDetectionConfig = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const fleet = await getFleetConfig();
+    res.status(200).json({
+      ...fleet,
+      defaults: getDefaultDetectionThresholds(),
+      detectors: describeDetectors(fleet.thresholds),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update the fleet detection config (admin only)
+ * Only the given parameters change, the rest keep their current value
+ */
+export const updateFleetDetectionConfig = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const overrides = parseOverrides(req.body);
+    const current = await getFleetConfig();
+    const results = DetectionThresholdsDto.safeParse(
+      mergeDetectionThresholds(current.thresholds, overrides)
+    );
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const thresholds = results.data;
+
+    const auth = getAuth(req);
+    const fleet = await DetectionConfig.findOneAndUpdate(
+      { scope: "FLEET" },
+      {
+        $set: { thresholds, updatedBy: auth.userId, updatedAt: new Date() },
+        $inc: { version: 1 },
+      },
+      { upsert: true, new: true }
+    );
+
+    res.status(200).json(fleet);
+  } catch (error) {
+    next(error);
+  }
+};
+
+const findSolarUnit = async (id: string) => {
+  if (!mongoose.isValidObjectId(id)) {
+    throw new ValidationError("Invalid solar unit id");
+  }
+  const solarUnit = await SolarUnit.findById(id);
+  if (!solarUnit) {
+    throw new NotFoundError("Solar unit not found");
+  }
+  return solarUnit;
+};
+
+/**
+ * Get a solar unit's overrides, effective detection config and which detectors run for it (admin only)
+ */
+export const getSolarUnitDetectionConfig = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const solarUnit = await findSolarUnit(req.params.id);
+
+    const [unit, effective] = await Promise.all([
+      DetectionConfig.findOne({ scope: "UNIT", solarUnitId: solarUnit._id }),
+      getDetectionConfig(solarUnit._id.toString()),
+    ]);
+
+    res.status(200).json({
+      solarUnitId: solarUnit._id,
+      overrides: unit?.thresholds ?? {},
+      updatedBy: unit?.updatedBy ?? null,
+      updatedAt: unit?.updatedAt ?? null,
+      ...effective,
+      detectors: describeDetectors(effective.thresholds),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace a solar unit's threshold overrides (admin only)
+ */
+export const updateSolarUnitDetectionConfig = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const solarUnit = await findSolarUnit(req.params.id);
+    const overrides = parseOverrides(req.body);
+
+    const auth = getAuth(req);
+    const unit = await DetectionConfig.findOneAndUpdate(
+      { scope: "UNIT", solarUnitId: solarUnit._id },
+      {
+        $set: { thresholds: overrides, updatedBy: auth.userId, updatedAt: new Date() },
+        $inc: { version: 1 },
+      },
+      { upsert: true, new: true }
+    );
+
+    const effective = await getDetectionConfig(solarUnit._id.toString());
+    res.status(200).json({ solarUnitId: solarUnit._id, overrides: unit.thresholds, ...effective });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Clear a solar unit's overrides so it follows the fleet config again (admin only)
+ * The document is kept so its version keeps increasing
+ */
+export const resetSolarUnitDetectionConfig = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const solarUnit = await findSolarUnit(req.params.id);
+
+    const auth = getAuth(req);
+    await DetectionConfig.updateOne(
+      { scope: "UNIT", solarUnitId: solarUnit._id },
+      {
+        $set: { thresholds: {}, updatedBy: auth.userId, updatedAt: new Date() },
+        $inc: { version: 1 },
+      }
+    );
+
+    const effective = await getDetectionConfig(solarUnit._id.toString());
+    res.status(200).json({ solarUnitId: solarUnit._id, overrides: {}, ...effective });
+  } catch (error) {
+    next(error);
+  }
+};
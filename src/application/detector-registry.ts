@@ -0,0 +1,114 @@
+import { ANOMALY_TYPES } from "../infrastructure/entities/Anomaly";
+import type { DetectionThresholds } from "./detection-config";
+
+/**
+ * Anomaly Detector Registry
+ *
+ * Every detector registers itself here with the anomaly type it raises and how
+ * it behaves. Detection runs whatever is registered and enabled, and the anomaly
+ * types, their display names and the statistics are all derived from this list,
+ * so adding a detector does not require touching any of them. A detector raising
+ * a new anomaly type also needs that type added to ANOMALY_TYPES in the Anomaly
+ * entity, so anomalies can be stored without the registry being loaded.
+ */
+
+export type AnomalySeverity = "CRITICAL" | "WARNING" | "INFO";
+
+export interface DetectionResult {
+  anomalyType: string;
+  severity: AnomalySeverity;
+  description: string;
+  affectedStartDate: Date;
+  affectedEndDate: Date;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Data a detector reads:
+ * DAILY - daily totals for the analyzed window
+ * INTERVALS - raw interval records for the analyzed window
+ * HISTORY - daily totals for the long-term history, whatever the window
+ */
+export type DetectorInput = "DAILY" | "INTERVALS" | "HISTORY";
+
+export interface AnomalyDetector {
+  // Stable id, used to switch the detector on or off in the detection config
+  id: string;
+  anomalyType: string;
+  // Display name of the anomaly type, shared by all detectors raising that type
+  displayName: string;
+  description: string;
+  input: DetectorInput;
+  // Days with data needed before the detector runs at all
+  minHistoryDays: (thresholds: DetectionThresholds) => number;
+  defaultSeverity: AnomalySeverity;
+  // When each severity is raised, for documentation and threshold tuning
+  severityRules: Partial<Record<AnomalySeverity, string>>;
+  enabledByDefault: boolean;
+  detect: (solarUnitId: string, data: any[], thresholds: DetectionThresholds) => Promise<DetectionResult[]>;
+}
+
+const detectors: AnomalyDetector[] = [];
+
+/**
+ * Adds a detector to the registry
+ * Throws on a duplicate id, a type the Anomaly entity cannot store, or a display name
+ * conflicting with another detector of the same type
+ */
+export function registerDetector(detector: AnomalyDetector) {
+  if (!(ANOMALY_TYPES as readonly string[]).includes(detector.anomalyType)) {
+    throw new Error(`Detector ${detector.id} raises ${detector.anomalyType}, which is missing from ANOMALY_TYPES`);
+  }
+  if (detectors.some((d) => d.id === detector.id)) {
+    throw new Error(`Detector ${detector.id} is already registered`);
+  }
+  const sameType = detectors.find((d) => d.anomalyType === detector.anomalyType);
+  if (sameType && sameType.displayName !== detector.displayName) {
+    throw new Error(
+      `Detector ${detector.id} names ${detector.anomalyType} "${detector.displayName}", but ${sameType.id} already named it "${sameType.displayName}"`
+    );
+  }
+  detectors.push(detector);
+}
+
+/**
+ * Registered detectors, in registration order
+ */
+export const getDetectors = (): AnomalyDetector[] => detectors.slice();
+
+export const getDetector = (id: string): AnomalyDetector | undefined =>
+  detectors.find((d) => d.id === id);
+
+/**
+ * Anomaly types raised by the registered detectors
+ */
+export const getAnomalyTypes = (): string[] =>
+  detectors
+    .map((d) => d.anomalyType)
+    .filter((type, index, types) => types.indexOf(type) === index);
+
+export const isAnomalyType = (type: string): boolean =>
+  detectors.some((d) => d.anomalyType === type);
+
+export const getAnomalyTypeDisplayName = (type: string): string =>
+  detectors.find((d) => d.anomalyType === type)?.displayName || type;
+
+/**
+ * Whether a detector runs under the given thresholds: the config's detector
+ * switches win, the detector's own default applies otherwise
+ */
+export const isDetectorEnabled = (detector: AnomalyDetector, thresholds: DetectionThresholds): boolean =>
+  thresholds.detectors[detector.id] ?? detector.enabledByDefault;
+
+/**
+ * Registry contents for the API, resolved against the given thresholds
+ */
+export const describeDetectors = (thresholds: DetectionThresholds) =>
+  detectors.map((detector) => {
+    const { detect, minHistoryDays, ...rest } = detector;
+    return {
+      ...rest,
+      minHistoryDays: minHistoryDays(thresholds),
+      enabled: isDetectorEnabled(detector, thresholds),
+    };
+  });
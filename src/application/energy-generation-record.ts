@@ -1,9 +1,170 @@
 import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
 import { NextFunction, Request, Response } from "express";
-import { GetAllEnergyGenerationRecordsQueryDto, GetCapacityFactorQueryDto } from "../domain/dtos/solar-unit";
+import {
+  EnergyBucketDto,
+  GetAllEnergyGenerationRecordsQueryDto,
+  GetCapacityFactorQueryDto,
+} from "../domain/dtos/solar-unit";
 import { ValidationError, NotFoundError } from "../domain/errors/error";
 import { SolarUnit } from "../infrastructure/entities/SolarUnit";
 import mongoose from "mongoose";
+import { z } from "zod";
+import {
+  calculateExpectedEnergy,
+  calculatePerformanceRatio,
+  getDailyWeatherForSolarUnit,
+} from "./weather";
+import { ExportColumn, parseExportFormat, streamExport } from "./export";
+import { findSolarUnitForActor, getActor } from "./actor";
+
+type EnergyBucket = z.infer<typeof EnergyBucketDto>;
+
+// Label format for each bucket, in the requested timezone
+const BUCKET_LABEL_FORMATS: Record<EnergyBucket, string> = {
+  hour: "%Y-%m-%dT%H:00",
+  day: "%Y-%m-%d",
+  date: "%Y-%m-%d",
+  week: "%Y-%m-%d", // Monday the week starts on
+  month: "%Y-%m",
+  year: "%Y",
+};
+
+// Records an admin has excluded stay stored but never count towards energy totals
+export const INCLUDED_RECORDS_FILTER = { excluded: { $ne: true } };
+
+interface EnergyAggregationOptions {
+  groupBy: EnergyBucket;
+  from?: Date;
+  to?: Date;
+  timezone?: string;
+  limit?: number;
+}
+
+/**
+ * Aggregates a solar unit's energy generation records into time buckets
+ * Buckets are aligned to the given timezone and sorted newest first
+ */
+export const aggregateEnergyGenerationRecords = async (
+  solarUnitId: string,
+  { groupBy, from, to, timezone = "UTC", limit }: EnergyAggregationOptions
+) => {
+  const match: any = {
+    solarUnitId: new mongoose.Types.ObjectId(solarUnitId),
+    ...INCLUDED_RECORDS_FILTER,
+  };
+  if (from || to) {
+    match.timestamp = {};
+    if (from) match.timestamp.$gte = from;
+    if (to) match.timestamp.$lte = to;
+  }
+
+  const unit = groupBy === "date" ? "day" : groupBy;
+
+  const pipeline: mongoose.PipelineStage[] = [
+    { $match: match },
+    {
+      $group: {
+        _id: {
+          $dateTrunc: { date: "$timestamp", unit, timezone, startOfWeek: "monday" },
+        },
+        totalEnergy: { $sum: "$energyGenerated" },
+        minEnergy: { $min: "$energyGenerated" },
+        maxEnergy: { $max: "$energyGenerated" },
+        avgEnergy: { $avg: "$energyGenerated" },
+        recordCount: { $sum: 1 },
+        correctedCount: { $sum: { $cond: ["$corrected", 1, 0] } },
+      },
+    },
+    { $sort: { _id: -1 } },
+  ];
+
+  if (limit) {
+    pipeline.push({ $limit: limit });
+  }
+
+  pipeline.push({
+    $project: {
+      _id: {
+        date: {
+          $dateToString: { format: BUCKET_LABEL_FORMATS[groupBy], date: "$_id", timezone },
+        },
+      },
+      bucketStart: "$_id",
+      totalEnergy: 1,
+      minEnergy: 1,
+      maxEnergy: 1,
+      avgEnergy: 1,
+      recordCount: 1,
+      correctedCount: 1,
+    },
+  });
+
+  return EnergyGenerationRecord.aggregate(pipeline);
+};
+
+const DEFAULT_RECORDS_PAGE_SIZE = 100;
+
+/**
+ * Cursors point at the last record of a page: its timestamp, with the record id
+ * as a tie-breaker for records sharing a timestamp
+ */
+const encodeRecordCursor = (record: { timestamp: Date; _id: mongoose.Types.ObjectId }) =>
+  Buffer.from(`${record.timestamp.toISOString()}_${record._id.toString()}`).toString("base64url");
+
+const decodeRecordCursor = (cursor: string) => {
+  const [timestamp, id] = Buffer.from(cursor, "base64url").toString().split("_");
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime()) || !mongoose.isValidObjectId(id)) {
+    throw new ValidationError("Invalid cursor");
+  }
+  return { timestamp: date, id: new mongoose.Types.ObjectId(id) };
+};
+
+interface EnergyRecordPageOptions {
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  order: "asc" | "desc";
+  limit: number;
+}
+
+/**
+ * Lists a solar unit's raw energy generation records one page at a time
+ */
+export const listEnergyGenerationRecords = async (
+  solarUnitId: string,
+  { from, to, cursor, order, limit }: EnergyRecordPageOptions
+) => {
+  const conditions: any[] = [{ solarUnitId }];
+  if (from) conditions.push({ timestamp: { $gte: from } });
+  if (to) conditions.push({ timestamp: { $lte: to } });
+
+  if (cursor) {
+    const { timestamp, id } = decodeRecordCursor(cursor);
+    const op = order === "asc" ? "$gt" : "$lt";
+    conditions.push({
+      $or: [
+        { timestamp: { [op]: timestamp } },
+        { timestamp, _id: { [op]: id } },
+      ],
+    });
+  }
+
+  const direction = order === "asc" ? 1 : -1;
+  // Fetch one extra record to know whether another page exists
+  const records = await EnergyGenerationRecord.find({ $and: conditions })
+    .sort({ timestamp: direction, _id: direction })
+    .limit(limit + 1);
+
+  const hasMore = records.length > limit;
+  const data = hasMore ? records.slice(0, limit) : records;
+
+  return {
+    data,
+    nextCursor: hasMore ? encodeRecordCursor(data[data.length - 1]) : null,
+    hasMore,
+  };
+};
 
 export const getAllEnergyGenerationRecordsBySolarUnitId = async (
   req: Request,
@@ -12,48 +173,204 @@ export const getAllEnergyGenerationRecordsBySolarUnitId = async (
 ) => {
   try {
     const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
     const results = GetAllEnergyGenerationRecordsQueryDto.safeParse(req.query);
     if (!results.success) {
       throw new ValidationError(results.error.message);
     }
 
-    const { groupBy, limit } = results.data;
+    const { groupBy, limit, from, to, timezone, cursor, order } = results.data;
 
     if (!groupBy) {
-      const energyGenerationRecords = await EnergyGenerationRecord.find({
-        solarUnitId: id,
-      }).sort({ timestamp: -1 });
-      res.status(200).json(energyGenerationRecords);
+      const page = await listEnergyGenerationRecords(id, {
+        from,
+        to,
+        cursor,
+        order,
+        limit: limit || DEFAULT_RECORDS_PAGE_SIZE,
+      });
+      res.status(200).json(page);
+      return;
     }
 
-    if (groupBy === "date") {
-      const energyGenerationRecords = await EnergyGenerationRecord.aggregate([
-        {
-          $group: {
-            _id: {
-              date: {
-                $dateToString: { format: "%Y-%m-%d", date: "$timestamp" },
-              },
-            },
-            totalEnergy: { $sum: "$energyGenerated" },
-          },
-        },
-        {
-          $sort: { "_id.date": -1 },
-        },
-      ]);
+    const energyGenerationRecords = await aggregateEnergyGenerationRecords(id, {
+      groupBy,
+      from,
+      to,
+      timezone,
+      limit,
+    });
 
-       if (!limit) {
-        res.status(200).json(energyGenerationRecords);
-        return;
-      }
-      res.status(200).json(energyGenerationRecords.slice(0, parseInt(limit)));
+    res.status(200).json(energyGenerationRecords);
+  } catch (error) {
+    next(error);
   }
-}catch (error) {
+};
+
+const energyRecordExportColumns: ExportColumn<any>[] = [
+  { header: "Timestamp", value: (record) => record.timestamp },
+  { header: "Energy Generated (kWh)", value: (record) => record.energyGenerated },
+  { header: "Interval (hours)", value: (record) => record.intervalHours },
+  { header: "Corrected", value: (record) => (record.corrected ? "Yes" : "No") },
+  { header: "Excluded", value: (record) => (record.excluded ? "Yes" : "No") },
+];
+
+const energyBucketExportColumns: ExportColumn<any>[] = [
+  { header: "Period", value: (bucket) => bucket._id.date },
+  { header: "Total Energy (kWh)", value: (bucket) => bucket.totalEnergy },
+  { header: "Min Energy (kWh)", value: (bucket) => bucket.minEnergy },
+  { header: "Max Energy (kWh)", value: (bucket) => bucket.maxEnergy },
+  { header: "Avg Energy (kWh)", value: (bucket) => bucket.avgEnergy },
+  { header: "Records", value: (bucket) => bucket.recordCount },
+  { header: "Corrected Records", value: (bucket) => bucket.correctedCount },
+];
+
+/**
+ * Export a solar unit's energy generation records as CSV or XLSX
+ * Accepts the same filters as the JSON listing; grouped exports contain one row per bucket
+ */
+export const exportEnergyGenerationRecordsBySolarUnitId = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const format = parseExportFormat(req.query);
+    const results = GetAllEnergyGenerationRecordsQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+
+    await findSolarUnitForActor(id, await getActor(req));
+
+    const { groupBy, limit, from, to, timezone, order } = results.data;
+
+    if (groupBy) {
+      const buckets = await aggregateEnergyGenerationRecords(id, { groupBy, from, to, timezone, limit });
+      await streamExport(res, {
+        format,
+        filename: `energy-generation-${id}-${groupBy}`,
+        sheetName: "Energy Generation",
+        columns: energyBucketExportColumns,
+        rows: buckets,
+      });
+      return;
+    }
+
+    const query: any = { solarUnitId: id };
+    if (from || to) {
+      query.timestamp = {};
+      if (from) query.timestamp.$gte = from;
+      if (to) query.timestamp.$lte = to;
+    }
+
+    const cursor = EnergyGenerationRecord.find(query)
+      .sort({ timestamp: order === "asc" ? 1 : -1 })
+      .lean()
+      .cursor();
+
+    await streamExport(res, {
+      format,
+      filename: `energy-generation-${id}`,
+      sheetName: "Energy Generation",
+      columns: energyRecordExportColumns,
+      rows: cursor,
+    });
+  } catch (error) {
     next(error);
   }
 };
 
+/**
+ * Export energy generation records across the fleet (admin only)
+ */
+export const exportAllEnergyGenerationRecords = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const format = parseExportFormat(req.query);
+    const results = GetAllEnergyGenerationRecordsQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+
+    const { from, to, order } = results.data;
+    const { solarUnitId } = req.query;
+
+    const query: any = {};
+    if (solarUnitId) {
+      if (!mongoose.isValidObjectId(solarUnitId)) {
+        throw new ValidationError("Invalid solar unit id");
+      }
+      query.solarUnitId = solarUnitId;
+    }
+    if (from || to) {
+      query.timestamp = {};
+      if (from) query.timestamp.$gte = from;
+      if (to) query.timestamp.$lte = to;
+    }
+
+    const cursor = EnergyGenerationRecord.find(query)
+      .populate("solarUnitId", "serialNumber")
+      .sort({ timestamp: order === "asc" ? 1 : -1 })
+      .lean()
+      .cursor();
+
+    await streamExport(res, {
+      format,
+      filename: "energy-generation-fleet",
+      sheetName: "Energy Generation",
+      columns: [
+        { header: "Serial Number", value: (record: any) => record.solarUnitId?.serialNumber },
+        ...energyRecordExportColumns,
+      ],
+      rows: cursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Effective daylight hours used for period capacity factors
+export const PERIOD_DAYLIGHT_HOURS = 8;
+// Effective daylight hours used for the per-day chart values
+export const DAILY_DAYLIGHT_HOURS = 10;
+
+/**
+ * Theoretical maximum energy (kWh) over a period
+ * Solar panels only generate during daylight hours
+ * Capacity is stored in W (watts), convert to kW by dividing by 1000
+ * Theoretical max = capacity (W) / 1000 (to kW) × daylight hours per day × days
+ */
+export const calculateTheoreticalMaximum = (
+  capacity: number,
+  days: number,
+  daylightHoursPerDay: number = PERIOD_DAYLIGHT_HOURS
+): number => (capacity / 1000) * daylightHoursPerDay * days;
+
+/**
+ * Capacity factor as a percentage of the theoretical maximum
+ */
+export const calculateCapacityFactor = (
+  energyGenerated: number,
+  capacity: number,
+  days: number,
+  daylightHoursPerDay: number = PERIOD_DAYLIGHT_HOURS
+): number => {
+  const theoreticalMaximum = calculateTheoreticalMaximum(capacity, days, daylightHoursPerDay);
+  return theoreticalMaximum > 0 ? (energyGenerated / theoreticalMaximum) * 100 : 0;
+};
+
 export const getCapacityFactorBySolarUnitId = async (
   req: Request,
   res: Response,
@@ -84,6 +401,7 @@ export const getCapacityFactorBySolarUnitId = async (
     const records = await EnergyGenerationRecord.find({
       solarUnitId: id,
       timestamp: { $gte: startDate, $lte: endDate },
+      ...INCLUDED_RECORDS_FILTER,
     });
 
     // Calculate actual energy generated (in kWh)
@@ -92,19 +410,13 @@ export const getCapacityFactorBySolarUnitId = async (
       0
     );
 
-    // Calculate theoretical maximum energy
-    // Solar panels only generate during daylight hours
-    // Capacity is stored in W (watts), convert to kW by dividing by 1000
-    // Theoretical max = capacity (W) / 1000 (to kW) × daylight hours per day × days
     const capacityInKW = solarUnit.capacity / 1000; // Convert from W to kW
-    const daylightHoursPerDay = 8; // 8 hours of effective daylight
-    const hoursInPeriod = daysToCalculate * daylightHoursPerDay;
-    const theoreticalMaximum = capacityInKW * hoursInPeriod; // in kWh
-
-    // Calculate capacity factor as percentage
-    const capacityFactor = theoreticalMaximum > 0
-      ? (actualEnergyGenerated / theoreticalMaximum) * 100
-      : 0;
+    const theoreticalMaximum = calculateTheoreticalMaximum(solarUnit.capacity, daysToCalculate);
+    const capacityFactor = calculateCapacityFactor(
+      actualEnergyGenerated,
+      solarUnit.capacity,
+      daysToCalculate
+    );
 
     // Also calculate daily capacity factors for the chart
     const dailyCapacityFactors = await EnergyGenerationRecord.aggregate([
@@ -112,6 +424,7 @@ export const getCapacityFactorBySolarUnitId = async (
         $match: {
           solarUnitId: new mongoose.Types.ObjectId(id),
           timestamp: { $gte: startDate, $lte: endDate },
+          ...INCLUDED_RECORDS_FILTER,
         },
       },
       {
@@ -122,6 +435,7 @@ export const getCapacityFactorBySolarUnitId = async (
             },
           },
           totalEnergy: { $sum: "$energyGenerated" },
+          correctedCount: { $sum: { $cond: ["$corrected", 1, 0] } },
         },
       },
       {
@@ -132,28 +446,47 @@ export const getCapacityFactorBySolarUnitId = async (
       },
     ]);
 
+    // Weather-normalized performance ratio (null when the unit has no location)
+    const dailyWeather = await getDailyWeatherForSolarUnit(solarUnit, startDate, endDate);
+
     // Calculate daily capacity factors
     const dailyData = dailyCapacityFactors.map((day) => {
-      // Solar panels only generate during daylight hours
-      // Capacity is stored in W (watts), convert to kW by dividing by 1000
-      const capacityInKW = solarUnit.capacity / 1000; // Convert from W to kW
-      const daylightHoursPerDay = 10; // 10 hours of effective daylight per day
-      const dailyTheoretical = capacityInKW * daylightHoursPerDay; // in kWh
-      const dailyCapacityFactor = dailyTheoretical > 0
-        ? (day.totalEnergy / dailyTheoretical) * 100
-        : 0;
-      
+      const dailyCapacityFactor = calculateCapacityFactor(
+        day.totalEnergy,
+        solarUnit.capacity,
+        1,
+        DAILY_DAYLIGHT_HOURS
+      );
+
+      const weather = dailyWeather?.get(day._id.date);
+      const expectedEnergy = weather ? calculateExpectedEnergy(capacityInKW, weather) : null;
+
       return {
         date: day._id.date,
         capacityFactor: parseFloat(dailyCapacityFactor.toFixed(2)),
         energyGenerated: day.totalEnergy,
+        corrected: day.correctedCount > 0,
+        irradiation: weather ? parseFloat(weather.irradiation.toFixed(2)) : null,
+        expectedEnergy: expectedEnergy !== null ? parseFloat(expectedEnergy.toFixed(2)) : null,
+        performanceRatio:
+          expectedEnergy !== null ? calculatePerformanceRatio(day.totalEnergy, expectedEnergy) : null,
       };
     });
 
+    // Overall performance ratio only counts days with both production and weather data
+    const daysWithWeather = dailyData.filter((day) => day.expectedEnergy !== null);
+    const performanceRatio = daysWithWeather.length > 0
+      ? calculatePerformanceRatio(
+          daysWithWeather.reduce((sum, day) => sum + day.energyGenerated, 0),
+          daysWithWeather.reduce((sum, day) => sum + (day.expectedEnergy || 0), 0)
+        )
+      : null;
+
     res.status(200).json({
       overallCapacityFactor: parseFloat(capacityFactor.toFixed(2)),
       actualEnergyGenerated,
       theoreticalMaximum,
+      performanceRatio,
       periodDays: daysToCalculate,
       dailyData: dailyData.reverse(), // Reverse to show oldest to newest
     });
@@ -0,0 +1,225 @@
+import { NextFunction, Request, Response } from "express";
+import { getAuth } from "@clerk/express";
+import mongoose from "mongoose";
+import { CorrectEnergyRecordDto } from "../domain/dtos/solar-unit";
+import { ConflictError, NotFoundError, ValidationError } from "../domain/errors/error";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { EnergyRecordCorrection } from "../infrastructure/entities/EnergyRecordCorrection";
+import { Invoice } from "../infrastructure/entities/Invoice";
+import { detectAllAnomalies, getDetectionLookbackDays, markDetectionDirty } from "./anomaly-detection";
+import { INCLUDED_RECORDS_FILTER } from "./energy-generation-record";
+
+/**
+ * Energy Record Corrections
+ *
+ * Admins can override, exclude or annotate individual records. The record keeps
+ * the device's original value and every change is stored as a new version, so a
+ * correction can always be traced or reverted.
+ */
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Flag invoices whose billed total no longer matches the corrected records
+ */
+const flagInvoicesForRecord = async (
+  solarUnitId: mongoose.Types.ObjectId,
+  timestamp: Date,
+  reason: string
+) => {
+  const invoices = await Invoice.find({
+    solarUnitId,
+    billingPeriodStart: { $lte: timestamp },
+    billingPeriodEnd: { $gte: timestamp },
+  });
+
+  for (const invoice of invoices) {
+    const [result] = await EnergyGenerationRecord.aggregate([
+      {
+        $match: {
+          solarUnitId,
+          timestamp: { $gte: invoice.billingPeriodStart, $lte: invoice.billingPeriodEnd },
+          ...INCLUDED_RECORDS_FILTER,
+        },
+      },
+      { $group: { _id: null, totalEnergy: { $sum: "$energyGenerated" } } },
+    ]);
+
+    const recomputed = round(result?.totalEnergy || 0);
+    if (Math.abs(recomputed - invoice.totalEnergyGenerated) > 0.01) {
+      invoice.reviewFlag = {
+        flaggedAt: new Date(),
+        recomputedEnergyGenerated: recomputed,
+        reason,
+      };
+      await invoice.save();
+    }
+  }
+};
+
+/**
+ * Correct a single energy generation record (admin only)
+ */
+export const correctEnergyGenerationRecord = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { recordId } = req.params;
+    if (!mongoose.isValidObjectId(recordId)) {
+      throw new ValidationError("Invalid record id");
+    }
+
+    const results = CorrectEnergyRecordDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { action, energyGenerated, reason, note } = results.data;
+
+    const record = await EnergyGenerationRecord.findById(recordId);
+    if (!record) {
+      throw new NotFoundError("Energy generation record not found");
+    }
+
+    const original = record.originalEnergyGenerated ?? record.energyGenerated;
+    const previous = {
+      energyGenerated: record.energyGenerated,
+      excluded: record.excluded,
+      note: record.note ?? undefined,
+    };
+    const current = { ...previous };
+
+    switch (action) {
+      case "OVERRIDE":
+        current.energyGenerated = energyGenerated!;
+        break;
+      case "EXCLUDE":
+        current.excluded = true;
+        break;
+      case "INCLUDE":
+        current.excluded = false;
+        break;
+      case "REVERT":
+        current.energyGenerated = original;
+        current.excluded = false;
+        break;
+    }
+    if (note !== undefined) {
+      current.note = note;
+    }
+
+    if (
+      current.energyGenerated === previous.energyGenerated &&
+      current.excluded === previous.excluded &&
+      current.note === previous.note
+    ) {
+      throw new ValidationError("Correction does not change the record");
+    }
+
+    const version = record.correctionVersion + 1;
+
+    // Only apply the change if nobody else corrected the record in the meantime
+    const updated = await EnergyGenerationRecord.findOneAndUpdate(
+      { _id: record._id, correctionVersion: record.correctionVersion },
+      {
+        $set: {
+          energyGenerated: current.energyGenerated,
+          excluded: current.excluded,
+          note: current.note,
+          originalEnergyGenerated: original,
+          corrected: current.energyGenerated !== original || current.excluded,
+          correctionVersion: version,
+        },
+      },
+      { new: true }
+    );
+    if (!updated) {
+      throw new ConflictError("Record was corrected concurrently, reload and try again");
+    }
+
+    const auth = getAuth(req);
+    const correction = await EnergyRecordCorrection.create({
+      recordId: record._id,
+      solarUnitId: record.solarUnitId,
+      version,
+      action,
+      previous,
+      current,
+      reason,
+      correctedBy: auth.userId,
+    });
+
+    // Annotations do not change any totals
+    if (action !== "ANNOTATE") {
+      await flagInvoicesForRecord(
+        record.solarUnitId,
+        record.timestamp,
+        `Record at ${record.timestamp.toISOString()} corrected (${action}): ${reason}`
+      );
+      // Also marked for the next incremental run, so a failure here does not lose the change
+      await markDetectionDirty(record.solarUnitId.toString(), record.timestamp);
+      // Re-analyze from the corrected record's day, with the usual look-back for context
+      const reportFrom = new Date(`${record.timestamp.toISOString().slice(0, 10)}T00:00:00Z`);
+      await detectAllAnomalies(record.solarUnitId.toString(), {
+        from: new Date(reportFrom.getTime() - getDetectionLookbackDays() * 24 * 60 * 60 * 1000),
+        reportFrom,
+      });
+    }
+
+    res.status(200).json({ record: updated, correction });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the correction history of an energy generation record (admin only)
+ */
+export const getEnergyGenerationRecordCorrections = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { recordId } = req.params;
+    if (!mongoose.isValidObjectId(recordId)) {
+      throw new ValidationError("Invalid record id");
+    }
+
+    const record = await EnergyGenerationRecord.findById(recordId);
+    if (!record) {
+      throw new NotFoundError("Energy generation record not found");
+    }
+
+    const corrections = await EnergyRecordCorrection.find({ recordId }).sort({ version: -1 });
+
+    res.status(200).json({ record, corrections });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List corrections made to a solar unit's records, newest first (admin only)
+ */
+export const getCorrectionsBySolarUnitId = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const corrections = await EnergyRecordCorrection.find({ solarUnitId: id })
+      .sort({ correctedAt: -1 })
+      .limit(500);
+
+    res.status(200).json(corrections);
+  } catch (error) {
+    next(error);
+  }
+};
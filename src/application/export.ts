@@ -0,0 +1,126 @@
+import { Response } from "express";
+import { once } from "events";
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import { ExportQueryDto } from "../domain/dtos/export";
+import { ValidationError } from "../domain/errors/error";
+
+/**
+ * Export Service
+ *
+ * Streams rows to the response as CSV or XLSX. Rows are consumed from an
+ * async iterable (e.g. a mongoose cursor) so large ranges are never buffered
+ * in memory.
+ */
+
+export type ExportFormat = z.infer<typeof ExportQueryDto>["format"];
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | Date | null | undefined;
+}
+
+interface ExportOptions<T> {
+  format: ExportFormat;
+  filename: string;
+  sheetName?: string;
+  columns: ExportColumn<T>[];
+  rows: AsyncIterable<T> | Iterable<T>;
+}
+
+/**
+ * Parses the export format from the request query
+ */
+export const parseExportFormat = (query: unknown): ExportFormat => {
+  const results = ExportQueryDto.safeParse(query);
+  if (!results.success) {
+    throw new ValidationError(results.error.message);
+  }
+  return results.data.format;
+};
+
+const escapeCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Waits until the response can take more data
+ * @returns false when the client disconnected instead
+ */
+const waitForDrain = async (res: Response): Promise<boolean> => {
+  if (res.destroyed) return false;
+  const controller = new AbortController();
+  try {
+    return await Promise.race([
+      once(res, "drain", { signal: controller.signal }).then(() => true, () => false),
+      once(res, "close", { signal: controller.signal }).then(() => false, () => false),
+    ]);
+  } finally {
+    // Drops the listener that did not fire
+    controller.abort();
+  }
+};
+
+const writeCsv = async <T>(res: Response, { columns, rows }: ExportOptions<T>) => {
+  res.write(columns.map((column) => escapeCsvValue(column.header)).join(",") + "\r\n");
+
+  for await (const row of rows) {
+    if (res.destroyed) return;
+    const line = columns.map((column) => escapeCsvValue(column.value(row))).join(",") + "\r\n";
+    // Respect backpressure so slow clients don't make us buffer the whole export
+    if (!res.write(line) && !(await waitForDrain(res))) {
+      return;
+    }
+  }
+
+  res.end();
+};
+
+const writeXlsx = async <T>(res: Response, { columns, rows, sheetName }: ExportOptions<T>) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: res,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+  const worksheet = workbook.addWorksheet(sheetName || "Export");
+  worksheet.columns = columns.map((column) => ({ header: column.header }));
+
+  for await (const row of rows) {
+    if (res.destroyed) return;
+    worksheet.addRow(columns.map((column) => column.value(row) ?? null)).commit();
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+/**
+ * Streams rows to the response in the requested format
+ * Stops when the client disconnects; a cursor passed as rows is always closed
+ */
+export const streamExport = async <T>(res: Response, options: ExportOptions<T>) => {
+  const { format, filename } = options;
+
+  try {
+    res.status(200);
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}.${format}"`);
+
+    if (format === "xlsx") {
+      res.setHeader(
+        "Content-Type",
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+      );
+      await writeXlsx(res, options);
+    } else {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      await writeCsv(res, options);
+    }
+  } finally {
+    const rows = options.rows as { close?: () => Promise<unknown> };
+    if (typeof rows.close === "function") {
+      await rows.close().catch((error) => console.error("Failed to close export cursor:", error));
+    }
+  }
+};
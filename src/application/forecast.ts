@@ -0,0 +1,231 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { GetForecastQueryDto } from "../domain/dtos/solar-unit";
+import { ValidationError } from "../domain/errors/error";
+import { Forecast } from "../infrastructure/entities/Forecast";
+import { aggregateEnergyGenerationRecords, DAILY_DAYLIGHT_HOURS } from "./energy-generation-record";
+import { findSolarUnitForActor, getActor } from "./actor";
+
+/**
+ * Production Forecasting
+ *
+ * Predicts daily generation from the unit's own history:
+ * - SEASONAL: when a year of history exists, the same calendar window last year
+ *   scaled by how this year's recent production compares to last year's
+ * - TREND: otherwise, the recent level plus a damped linear trend
+ *
+ * Predictions are clamped to the unit's theoretical daily maximum and carry
+ * 80% / 95% confidence bands derived from the spread of recent production.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_HISTORY_DAYS = 7;
+const RECENT_WINDOW_DAYS = 28;
+const LEVEL_WINDOW_DAYS = 7;
+const SEASONAL_WINDOW_HALF_WIDTH = 7;
+const TREND_DAMPING = 0.5;
+// Bands widen by this fraction per day of horizon
+const BAND_GROWTH_PER_DAY = 0.1;
+const Z_80 = 1.2816;
+const Z_95 = 1.96;
+
+export interface DailyForecast {
+  date: string;
+  horizonDays: number;
+  predictedEnergy: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Collects the daily values found in [start, start + days)
+ */
+const valuesInWindow = (history: Map<string, number>, start: Date, days: number) => {
+  const values: number[] = [];
+  for (let i = 0; i < days; i++) {
+    const value = history.get(toDateKey(new Date(start.getTime() + i * DAY_MS)));
+    if (value !== undefined) values.push(value);
+  }
+  return values;
+};
+
+/**
+ * Least-squares line through the recent window, with x in days from its start
+ */
+const fitLinearTrend = (history: Map<string, number>, start: Date, days: number) => {
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i < days; i++) {
+    const value = history.get(toDateKey(new Date(start.getTime() + i * DAY_MS)));
+    if (value !== undefined) points.push({ x: i, y: value });
+  }
+
+  const meanX = mean(points.map((p) => p.x));
+  const meanY = mean(points.map((p) => p.y));
+  const covariance = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const variance = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = variance > 0 ? covariance / variance : 0;
+  const intercept = meanY - slope * meanX;
+
+  const residuals = points.map((p) => p.y - (intercept + slope * p.x));
+  const residualStd = Math.sqrt(mean(residuals.map((r) => r * r)));
+
+  return { slope, residualStd };
+};
+
+/**
+ * Forecasts daily generation for the days after `today`
+ * @param history - daily totals keyed by date (YYYY-MM-DD, UTC)
+ * @param capacity - unit capacity in W
+ */
+export function forecastDailyGeneration(
+  history: Map<string, number>,
+  capacity: number,
+  days: number,
+  today: Date = new Date()
+): { method: "SEASONAL" | "TREND"; days: DailyForecast[] } {
+  const todayStart = startOfUtcDay(today);
+  const recentStart = new Date(todayStart.getTime() - RECENT_WINDOW_DAYS * DAY_MS);
+  const recentValues = valuesInWindow(history, recentStart, RECENT_WINDOW_DAYS);
+
+  if (recentValues.length < MIN_HISTORY_DAYS) {
+    throw new ValidationError(
+      `Not enough recent history to forecast (need at least ${MIN_HISTORY_DAYS} days in the last ${RECENT_WINDOW_DAYS})`
+    );
+  }
+
+  const level = mean(
+    valuesInWindow(history, new Date(todayStart.getTime() - LEVEL_WINDOW_DAYS * DAY_MS), LEVEL_WINDOW_DAYS)
+  ) || mean(recentValues);
+  const { slope, residualStd } = fitLinearTrend(history, recentStart, RECENT_WINDOW_DAYS);
+
+  // Seasonality needs the same recent window one year earlier to scale against
+  const lastYearRecentValues = valuesInWindow(
+    history,
+    new Date(recentStart.getTime() - 365 * DAY_MS),
+    RECENT_WINDOW_DAYS
+  );
+  const lastYearRecentMean = mean(lastYearRecentValues);
+  const useSeasonal = lastYearRecentValues.length >= MIN_HISTORY_DAYS && lastYearRecentMean > 0;
+  const yearOverYearRatio = useSeasonal ? mean(recentValues) / lastYearRecentMean : 1;
+
+  const maxDailyEnergy = (capacity / 1000) * DAILY_DAYLIGHT_HOURS;
+  const clamp = (value: number) => Math.min(Math.max(value, 0), maxDailyEnergy);
+
+  const forecasts: DailyForecast[] = [];
+  let method: "SEASONAL" | "TREND" = useSeasonal ? "SEASONAL" : "TREND";
+
+  for (let h = 1; h <= days; h++) {
+    const date = new Date(todayStart.getTime() + h * DAY_MS);
+
+    let prediction = level + slope * h * TREND_DAMPING;
+    if (useSeasonal) {
+      const seasonalValues = valuesInWindow(
+        history,
+        new Date(date.getTime() - (365 + SEASONAL_WINDOW_HALF_WIDTH) * DAY_MS),
+        SEASONAL_WINDOW_HALF_WIDTH * 2 + 1
+      );
+      if (seasonalValues.length > 0) {
+        prediction = mean(seasonalValues) * yearOverYearRatio;
+      } else {
+        method = "TREND";
+      }
+    }
+
+    const spread = residualStd * (1 + BAND_GROWTH_PER_DAY * (h - 1));
+
+    forecasts.push({
+      date: toDateKey(date),
+      horizonDays: h,
+      predictedEnergy: round(clamp(prediction)),
+      lower80: round(clamp(prediction - Z_80 * spread)),
+      upper80: round(clamp(prediction + Z_80 * spread)),
+      lower95: round(clamp(prediction - Z_95 * spread)),
+      upper95: round(clamp(prediction + Z_95 * spread)),
+    });
+  }
+
+  return { method, days: forecasts };
+}
+
+/**
+ * Get a daily production forecast for a solar unit and persist it
+ */
+export const getForecastBySolarUnitId = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const results = GetForecastQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { days } = results.data;
+
+    const solarUnit = await findSolarUnitForActor(id, await getActor(req));
+
+    const now = new Date();
+    const todayStart = startOfUtcDay(now);
+
+    // A year of history plus the seasonal window, up to (not including) today
+    const buckets = await aggregateEnergyGenerationRecords(id, {
+      groupBy: "day",
+      from: new Date(todayStart.getTime() - (365 + RECENT_WINDOW_DAYS + SEASONAL_WINDOW_HALF_WIDTH) * DAY_MS),
+      to: new Date(todayStart.getTime() - 1),
+    });
+    const history = new Map<string, number>(buckets.map((b) => [b._id.date, b.totalEnergy]));
+
+    const forecast = forecastDailyGeneration(history, solarUnit.capacity, days, now);
+
+    await Forecast.bulkWrite(
+      forecast.days.map((day) => ({
+        updateOne: {
+          filter: {
+            solarUnitId: solarUnit._id,
+            issuedFor: todayStart,
+            forecastDate: new Date(day.date),
+          },
+          update: {
+            $set: {
+              horizonDays: day.horizonDays,
+              predictedEnergy: day.predictedEnergy,
+              lower80: day.lower80,
+              upper80: day.upper80,
+              lower95: day.lower95,
+              upper95: day.upper95,
+              method: forecast.method,
+            },
+          },
+          upsert: true,
+        },
+      }))
+    );
+
+    res.status(200).json({
+      solarUnitId: id,
+      issuedAt: now,
+      method: forecast.method,
+      capacity: solarUnit.capacity,
+      forecast: forecast.days,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,203 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { GetImpactQueryDto } from "../domain/dtos/solar-unit";
+import { ValidationError } from "../domain/errors/error";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { aggregateEnergyGenerationRecords, INCLUDED_RECORDS_FILTER } from "./energy-generation-record";
+import { findSolarUnitForActor, getActor } from "./actor";
+
+/**
+ * Environmental Impact
+ *
+ * Converts generated kWh into CO2 avoided using the grid emission factor of
+ * the unit's region, plus simple equivalents for customers.
+ */
+
+// Grid emission factors in kg CO2 per kWh, keyed by region code
+// Override or extend with GRID_EMISSION_FACTORS, e.g. '{"LK":0.53,"EU":0.25}'
+const REGION_EMISSION_FACTORS: Record<string, number> = {
+  LK: 0.53,
+  IN: 0.71,
+  AU: 0.62,
+  US: 0.37,
+  GB: 0.2,
+  DE: 0.36,
+};
+// Used when the unit has no region or the region is not configured
+const DEFAULT_EMISSION_FACTOR = 0.48;
+
+// CO2 absorbed by one tree seedling grown for 10 years (kg)
+const CO2_PER_TREE_KG = 60;
+// CO2 emitted by an average passenger car per km (kg)
+const CO2_PER_CAR_KM_KG = 0.17;
+
+let emissionFactors: Record<string, number> | null = null;
+
+const getEmissionFactors = (): Record<string, number> => {
+  if (!emissionFactors) {
+    let overrides: Record<string, number> = {};
+    if (process.env.GRID_EMISSION_FACTORS) {
+      try {
+        overrides = JSON.parse(process.env.GRID_EMISSION_FACTORS);
+      } catch (error) {
+        console.error("Invalid GRID_EMISSION_FACTORS, using defaults:", error);
+      }
+    }
+    emissionFactors = { ...REGION_EMISSION_FACTORS, ...overrides };
+  }
+  return emissionFactors;
+};
+
+/**
+ * Grid emission factor (kg CO2/kWh) for a region
+ */
+export const getEmissionFactor = (region?: string | null): number => {
+  const factors = getEmissionFactors();
+  return (region && factors[region.toUpperCase()]) || DEFAULT_EMISSION_FACTOR;
+};
+
+export interface EnvironmentalImpact {
+  energyGenerated: number; // kWh
+  emissionFactor: number; // kg CO2/kWh
+  co2AvoidedKg: number;
+  treesPlanted: number;
+  carKmAvoided: number;
+}
+
+/**
+ * Environmental impact of generating the given energy in a region
+ */
+export const calculateEnvironmentalImpact = (
+  energyGenerated: number,
+  region?: string | null
+): EnvironmentalImpact => {
+  const emissionFactor = getEmissionFactor(region);
+  const co2AvoidedKg = energyGenerated * emissionFactor;
+
+  return {
+    energyGenerated: parseFloat(energyGenerated.toFixed(2)),
+    emissionFactor,
+    co2AvoidedKg: parseFloat(co2AvoidedKg.toFixed(2)),
+    treesPlanted: parseFloat((co2AvoidedKg / CO2_PER_TREE_KG).toFixed(1)),
+    carKmAvoided: parseFloat((co2AvoidedKg / CO2_PER_CAR_KM_KG).toFixed(0)),
+  };
+};
+
+/**
+ * Get the environmental impact of a solar unit over a period
+ * With groupBy, the impact is also broken down per time bucket
+ */
+export const getImpactBySolarUnitId = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const results = GetImpactQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { from, to, groupBy } = results.data;
+
+    const solarUnit = await findSolarUnitForActor(id, await getActor(req));
+
+    const buckets = await aggregateEnergyGenerationRecords(id, {
+      groupBy: groupBy || "month",
+      from,
+      to,
+    });
+    const totalEnergy = buckets.reduce((sum, bucket) => sum + bucket.totalEnergy, 0);
+
+    res.status(200).json({
+      solarUnitId: id,
+      region: solarUnit.region || null,
+      from: from || null,
+      to: to || null,
+      ...calculateEnvironmentalImpact(totalEnergy, solarUnit.region),
+      ...(groupBy && {
+        breakdown: buckets.map((bucket) => ({
+          period: bucket._id.date,
+          ...calculateEnvironmentalImpact(bucket.totalEnergy, solarUnit.region),
+        })),
+      }),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the fleet-wide environmental impact over a period (admin only)
+ */
+export const getFleetImpact = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = GetImpactQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { from, to } = results.data;
+
+    const match: any = { ...INCLUDED_RECORDS_FILTER };
+    if (from || to) {
+      match.timestamp = {};
+      if (from) match.timestamp.$gte = from;
+      if (to) match.timestamp.$lte = to;
+    }
+
+    const [solarUnits, energyByUnit] = await Promise.all([
+      SolarUnit.find(),
+      EnergyGenerationRecord.aggregate([
+        { $match: match },
+        { $group: { _id: "$solarUnitId", totalEnergy: { $sum: "$energyGenerated" } } },
+      ]),
+    ]);
+    const energyMap = new Map(energyByUnit.map((e) => [e._id.toString(), e.totalEnergy as number]));
+
+    const units = solarUnits.map((solarUnit) => ({
+      solarUnitId: solarUnit._id,
+      serialNumber: solarUnit.serialNumber,
+      region: solarUnit.region || null,
+      ...calculateEnvironmentalImpact(energyMap.get(solarUnit._id.toString()) || 0, solarUnit.region),
+    }));
+
+    const byRegion: Record<string, { energyGenerated: number; co2AvoidedKg: number; unitCount: number }> = {};
+    for (const unit of units) {
+      const region = unit.region || "UNKNOWN";
+      byRegion[region] = byRegion[region] || { energyGenerated: 0, co2AvoidedKg: 0, unitCount: 0 };
+      byRegion[region].energyGenerated += unit.energyGenerated;
+      byRegion[region].co2AvoidedKg += unit.co2AvoidedKg;
+      byRegion[region].unitCount++;
+    }
+    // Summing rounded values can leave floating point noise, so round like the per-unit figures
+    Object.keys(byRegion).forEach((region) => {
+      byRegion[region].energyGenerated = parseFloat(byRegion[region].energyGenerated.toFixed(2));
+      byRegion[region].co2AvoidedKg = parseFloat(byRegion[region].co2AvoidedKg.toFixed(2));
+    });
+
+    const totalEnergy = units.reduce((sum, unit) => sum + unit.energyGenerated, 0);
+    const totalCo2AvoidedKg = units.reduce((sum, unit) => sum + unit.co2AvoidedKg, 0);
+
+    res.status(200).json({
+      from: from || null,
+      to: to || null,
+      energyGenerated: parseFloat(totalEnergy.toFixed(2)),
+      co2AvoidedKg: parseFloat(totalCo2AvoidedKg.toFixed(2)),
+      treesPlanted: parseFloat((totalCo2AvoidedKg / CO2_PER_TREE_KG).toFixed(1)),
+      carKmAvoided: parseFloat((totalCo2AvoidedKg / CO2_PER_CAR_KM_KG).toFixed(0)),
+      byRegion,
+      units,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
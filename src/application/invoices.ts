@@ -3,6 +3,38 @@ import { Invoice } from "../infrastructure/entities/Invoice";
 import { NotFoundError, ValidationError, UnauthorizedError } from "../domain/errors/error";
 import { getAuth } from "@clerk/express";
 import { User } from "../infrastructure/entities/User";
+import { ExportColumn, parseExportFormat, streamExport } from "./export";
+
+/**
+ * Build a query from the invoice list filters (status, userId, solarUnitId)
+ */
+function buildInvoiceFilters(params: Request["query"]): any {
+  const { status, userId, solarUnitId } = params;
+
+  const query: any = {};
+  if (status && (status === "PENDING" || status === "PAID" || status === "FAILED")) {
+    query.paymentStatus = status;
+  }
+  if (userId) {
+    query.userId = userId;
+  }
+  if (solarUnitId) {
+    query.solarUnitId = solarUnitId;
+  }
+
+  return query;
+}
+
+const invoiceExportColumns: ExportColumn<any>[] = [
+  { header: "Invoice ID", value: (invoice) => invoice._id.toString() },
+  { header: "Serial Number", value: (invoice) => invoice.solarUnitId?.serialNumber },
+  { header: "Billing Period Start", value: (invoice) => invoice.billingPeriodStart },
+  { header: "Billing Period End", value: (invoice) => invoice.billingPeriodEnd },
+  { header: "Total Energy Generated (kWh)", value: (invoice) => invoice.totalEnergyGenerated },
+  { header: "Payment Status", value: (invoice) => invoice.paymentStatus },
+  { header: "Paid At", value: (invoice) => invoice.paidAt },
+  { header: "CO2 Avoided (kg)", value: (invoice) => invoice.environmentalImpact?.co2AvoidedKg },
+];
 
 /**
  * Get all invoices for the authenticated user
@@ -25,12 +57,7 @@ export const getInvoicesForUser = async (
       throw new NotFoundError("User not found");
     }
 
-    const { status } = req.query;
-
-    const query: any = { userId: user._id };
-    if (status && (status === "PENDING" || status === "PAID" || status === "FAILED")) {
-      query.paymentStatus = status;
-    }
+    const query: any = { ...buildInvoiceFilters(req.query), userId: user._id };
 
     const invoices = await Invoice.find(query)
       .populate("solarUnitId", "serialNumber capacity")
@@ -94,18 +121,7 @@ export const getAllInvoices = async (
   next: NextFunction
 ) => {
   try {
-    const { status, userId, solarUnitId } = req.query;
-
-    const query: any = {};
-    if (status && (status === "PENDING" || status === "PAID" || status === "FAILED")) {
-      query.paymentStatus = status;
-    }
-    if (userId) {
-      query.userId = userId;
-    }
-    if (solarUnitId) {
-      query.solarUnitId = solarUnitId;
-    }
+    const query = buildInvoiceFilters(req.query);
 
     const invoices = await Invoice.find(query)
       .populate("solarUnitId", "serialNumber capacity")
@@ -118,3 +134,75 @@ export const getAllInvoices = async (
   }
 };
 
+/**
+ * Export the authenticated user's invoices as CSV or XLSX
+ */
+export const exportInvoicesForUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const format = parseExportFormat(req.query);
+    const auth = getAuth(req);
+    const clerkUserId = auth.userId;
+
+    if (!clerkUserId) {
+      throw new UnauthorizedError("Unauthorized");
+    }
+
+    const user = await User.findOne({ clerkUserId });
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const cursor = Invoice.find({ ...buildInvoiceFilters(req.query), userId: user._id })
+      .populate("solarUnitId", "serialNumber")
+      .sort({ billingPeriodStart: -1 })
+      .lean()
+      .cursor();
+
+    await streamExport(res, {
+      format,
+      filename: "invoices",
+      sheetName: "Invoices",
+      columns: invoiceExportColumns,
+      rows: cursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Export all invoices (admin only)
+ */
+export const exportAllInvoices = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const format = parseExportFormat(req.query);
+
+    const cursor = Invoice.find(buildInvoiceFilters(req.query))
+      .populate("solarUnitId", "serialNumber")
+      .populate("userId", "email")
+      .sort({ billingPeriodStart: -1 })
+      .lean()
+      .cursor();
+
+    await streamExport(res, {
+      format,
+      filename: "invoices-fleet",
+      sheetName: "Invoices",
+      columns: [
+        ...invoiceExportColumns,
+        { header: "Customer Email", value: (invoice: any) => invoice.userId?.email },
+      ],
+      rows: cursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,457 @@
+import { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import {
+  GetNotificationDeliveriesQueryDto,
+  UpdateNotificationPreferencesDto,
+} from "../domain/dtos/notification";
+import { ForbiddenError, ValidationError } from "../domain/errors/error";
+import { Anomaly } from "../infrastructure/entities/Anomaly";
+import { NotificationDelivery } from "../infrastructure/entities/NotificationDelivery";
+import { NotificationPreference } from "../infrastructure/entities/NotificationPreference";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { User } from "../infrastructure/entities/User";
+import { EmailSender, SmtpEmailSender } from "../infrastructure/notifications/email-sender";
+import {
+  assertPublicWebhookUrl,
+  sendSignedWebhook,
+  WebhookDeliveryError,
+} from "../infrastructure/notifications/webhook-sender";
+import { getActor, isStaffUser } from "./actor";
+import { getAnomalyTypeDisplayName, isAnomalyType } from "./detector-registry";
+
+/**
+ * Anomaly Notifications
+ *
+ * When an anomaly is created or escalated, the unit's owner (and staff who
+ * subscribed to every unit) are notified on each channel their preferences
+ * enable for that severity. Deliveries are queued as NotificationDelivery
+ * records and sent by a background job, so detection never waits on SMTP or a
+ * webhook; failed deliveries are retried with exponential backoff.
+ */
+
+export type NotificationEvent = "CREATED" | "ESCALATED" | "TEST";
+
+export const SEVERITY_RANK: Record<string, number> = { INFO: 1, WARNING: 2, CRITICAL: 3 };
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_RETRY_BASE_MS = 60 * 1000;
+// How long a claimed delivery is hidden from other runs of the job, longer than any attempt takes
+const DELIVERY_CLAIM_MS = 5 * 60 * 1000;
+const DELIVERY_BATCH_SIZE = 100;
+
+const getMaxAttempts = () => parseInt(process.env.NOTIFICATION_MAX_ATTEMPTS || "") || DEFAULT_MAX_ATTEMPTS;
+const getRetryBaseMs = () => parseInt(process.env.NOTIFICATION_RETRY_BASE_MS || "") || DEFAULT_RETRY_BASE_MS;
+
+let emailSender: EmailSender | null = null;
+
+/**
+ * Returns the configured email sender (SMTP settings from the environment)
+ */
+export const getEmailSender = (): EmailSender => {
+  if (!emailSender) {
+    emailSender = SmtpEmailSender.fromEnv();
+  }
+  return emailSender;
+};
+
+/**
+ * Replaces the email sender (e.g. with one pointed at a local SMTP sink)
+ */
+export const setEmailSender = (sender: EmailSender) => {
+  emailSender = sender;
+};
+
+const generateWebhookSecret = () => crypto.randomBytes(32).toString("hex");
+
+type DeliveryDocument = InstanceType<typeof NotificationDelivery>;
+
+const buildAnomalyPayload = (anomaly: any, serialNumber: string, event: NotificationEvent) => ({
+  event: `anomaly.${event.toLowerCase()}`,
+  sentAt: new Date().toISOString(),
+  anomaly: {
+    id: anomaly._id.toString(),
+    type: anomaly.anomalyType,
+    severity: anomaly.severity,
+    status: anomaly.status,
+    description: anomaly.description,
+    affectedStartDate: anomaly.affectedStartDate,
+    affectedEndDate: anomaly.affectedEndDate,
+    solarUnit: { id: anomaly.solarUnitId.toString(), serialNumber },
+  },
+});
+
+const formatEmail = (payload: any) => {
+  const { anomaly } = payload;
+  const action = payload.event === "anomaly.escalated" ? "escalated" : "detected";
+  const typeName = getAnomalyTypeDisplayName(anomaly.type);
+  return {
+    subject: `[${anomaly.severity}] ${typeName} anomaly ${action} on ${anomaly.solarUnit.serialNumber}`,
+    text: [
+      `A ${anomaly.severity} ${typeName} anomaly was ${action} on solar unit ${anomaly.solarUnit.serialNumber}.`,
+      "",
+      anomaly.description,
+      "",
+      `Affected: ${new Date(anomaly.affectedStartDate).toISOString()} - ${new Date(anomaly.affectedEndDate).toISOString()}`,
+      `Anomaly id: ${anomaly.id}`,
+    ].join("\n"),
+  };
+};
+
+/**
+ * Sends a delivery once, then marks it delivered, schedules a retry or gives up
+ */
+export async function attemptDelivery(delivery: DeliveryDocument): Promise<DeliveryDocument> {
+  delivery.attempts++;
+
+  try {
+    if (delivery.channel === "EMAIL") {
+      await getEmailSender().send({ to: delivery.target, ...formatEmail(delivery.payload) });
+    } else {
+      const preference = await NotificationPreference.findOne({ userId: delivery.userId }).select("+webhook.secret");
+      const secret = preference?.webhook?.secret;
+      if (!secret) {
+        throw new WebhookDeliveryError("Webhook secret is missing");
+      }
+      delivery.responseStatus = await sendSignedWebhook(delivery.target, secret, delivery.payload);
+    }
+
+    delivery.status = "DELIVERED";
+    delivery.deliveredAt = new Date();
+    delivery.nextAttemptAt = undefined;
+    delivery.lastError = undefined;
+  } catch (error) {
+    delivery.lastError = (error as Error).message;
+    if ((error as Error).name === "WebhookDeliveryError") {
+      delivery.responseStatus = (error as WebhookDeliveryError).status;
+    }
+
+    if (delivery.attempts >= getMaxAttempts()) {
+      delivery.status = "FAILED";
+      delivery.nextAttemptAt = undefined;
+    } else {
+      delivery.status = "RETRYING";
+      delivery.nextAttemptAt = new Date(Date.now() + getRetryBaseMs() * Math.pow(2, delivery.attempts - 1));
+    }
+  }
+
+  await delivery.save();
+  return delivery;
+}
+
+/**
+ * Queue notifications for everyone subscribed to an anomaly's unit
+ * Never throws - a notification failure must not break detection
+ */
+export async function notifyAnomaly(anomalyId: mongoose.Types.ObjectId | string, event: NotificationEvent) {
+  try {
+    const anomaly = await Anomaly.findById(anomalyId);
+    if (!anomaly) return;
+    const solarUnit = await SolarUnit.findById(anomaly.solarUnitId);
+    if (!solarUnit) return;
+
+    const staffPreferences = await NotificationPreference.find({ allUnits: true }).select("userId");
+    const recipientIds = staffPreferences.map((p) => p.userId.toString());
+    if (solarUnit.userId) recipientIds.push(solarUnit.userId.toString());
+
+    const users = await User.find({ _id: { $in: recipientIds } });
+    const payload = buildAnomalyPayload(anomaly, solarUnit.serialNumber, event);
+
+    for (const user of users) {
+      const isOwner = !!solarUnit.userId && solarUnit.userId.equals(user._id);
+      // allUnits is only honoured for staff, judged as when the preference was saved
+      if (!isOwner && !isStaffUser(user)) continue;
+
+      const preference =
+        (await NotificationPreference.findOne({ userId: user._id })) ||
+        new NotificationPreference({ userId: user._id });
+
+      if (preference.anomalyTypes.length > 0 && !preference.anomalyTypes.includes(anomaly.anomalyType)) {
+        continue;
+      }
+
+      const severity = SEVERITY_RANK[anomaly.severity];
+      const channels: { channel: "EMAIL" | "WEBHOOK"; target: string }[] = [];
+      if (preference.email?.enabled && severity >= SEVERITY_RANK[preference.email.minSeverity]) {
+        channels.push({ channel: "EMAIL", target: user.email });
+      }
+      if (
+        preference.webhook?.enabled &&
+        preference.webhook.url &&
+        severity >= SEVERITY_RANK[preference.webhook.minSeverity]
+      ) {
+        channels.push({ channel: "WEBHOOK", target: preference.webhook.url });
+      }
+
+      for (const { channel, target } of channels) {
+        await NotificationDelivery.create({
+          anomalyId: anomaly._id,
+          userId: user._id,
+          channel,
+          event,
+          target,
+          payload,
+          nextAttemptAt: new Date(),
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to send notifications for anomaly ${anomalyId}:`, error);
+  }
+}
+
+/**
+ * Sends queued deliveries and retries those whose backoff has elapsed
+ * Each delivery is claimed before it is sent, so overlapping runs never send one twice
+ */
+export async function deliverDueDeliveries(): Promise<number> {
+  let attempted = 0;
+  const now = new Date();
+
+  while (attempted < DELIVERY_BATCH_SIZE) {
+    const delivery = await NotificationDelivery.findOneAndUpdate(
+      { status: { $in: ["PENDING", "RETRYING"] }, nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(Date.now() + DELIVERY_CLAIM_MS) } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    );
+    if (!delivery) break;
+
+    await attemptDelivery(delivery);
+    attempted++;
+  }
+  return attempted;
+}
+
+const loadPreference = async (userId: mongoose.Types.ObjectId) =>
+  (await NotificationPreference.findOne({ userId }).select("+webhook.secret")) ||
+  new NotificationPreference({ userId });
+
+// The secret is never echoed back after it has been handed out once
+const serializePreference = (preference: InstanceType<typeof NotificationPreference>, webhookSecret?: string) => {
+  const { webhook, ...rest } = preference.toObject();
+  const { secret, ...publicWebhook } = webhook || {};
+  return {
+    ...rest,
+    webhook: { ...publicWebhook, hasSecret: !!secret },
+    ...(webhookSecret ? { webhookSecret } : {}),
+  };
+};
+
+/**
+ * Get the signed-in user's notification preferences
+ */
+export const getNotificationPreferences = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const actor = await getActor(req);
+    const preference = await loadPreference(actor.user._id);
+    res.status(200).json(serializePreference(preference));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update the signed-in user's notification preferences
+ * A webhook secret is generated the first time a webhook URL is set and returned once
+ */
+export const updateNotificationPreferences = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = UpdateNotificationPreferencesDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { email, webhook, anomalyTypes, allUnits } = results.data;
+
+    const unknownTypes = (anomalyTypes || []).filter((type) => !isAnomalyType(type));
+    if (unknownTypes.length > 0) {
+      throw new ValidationError(`Unknown anomaly type(s): ${unknownTypes.join(", ")}`);
+    }
+
+    if (webhook?.url) {
+      try {
+        await assertPublicWebhookUrl(webhook.url);
+      } catch (error) {
+        throw new ValidationError((error as Error).message);
+      }
+    }
+
+    const actor = await getActor(req);
+    if (allUnits && !actor.isStaff) {
+      throw new ForbiddenError("Only staff can subscribe to every unit");
+    }
+
+    const preference = await loadPreference(actor.user._id);
+    if (email?.enabled !== undefined) preference.email!.enabled = email.enabled;
+    if (email?.minSeverity) preference.email!.minSeverity = email.minSeverity;
+    if (webhook?.enabled !== undefined) preference.webhook!.enabled = webhook.enabled;
+    if (webhook?.url !== undefined) preference.webhook!.url = webhook.url ?? undefined;
+    if (webhook?.minSeverity) preference.webhook!.minSeverity = webhook.minSeverity;
+    if (anomalyTypes) preference.anomalyTypes = anomalyTypes;
+    if (allUnits !== undefined) preference.allUnits = allUnits;
+
+    if (preference.webhook?.enabled && !preference.webhook.url) {
+      throw new ValidationError("A webhook URL is required to enable webhooks");
+    }
+
+    let webhookSecret: string | undefined;
+    if (preference.webhook?.url && !preference.webhook.secret) {
+      webhookSecret = generateWebhookSecret();
+      preference.webhook.secret = webhookSecret;
+    }
+
+    await preference.save();
+    res.status(200).json(serializePreference(preference, webhookSecret));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace the signed-in user's webhook secret, returning the new one
+ */
+export const rotateWebhookSecret = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const actor = await getActor(req);
+    const preference = await loadPreference(actor.user._id);
+    if (!preference.webhook?.url) {
+      throw new ValidationError("Set a webhook URL first");
+    }
+
+    const webhookSecret = generateWebhookSecret();
+    preference.webhook.secret = webhookSecret;
+    await preference.save();
+
+    res.status(200).json(serializePreference(preference, webhookSecret));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Send a test notification on every channel the signed-in user has enabled
+ */
+export const sendTestNotification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const actor = await getActor(req);
+    const preference = await loadPreference(actor.user._id);
+
+    const payload = {
+      event: "anomaly.test",
+      sentAt: new Date().toISOString(),
+      anomaly: {
+        id: "test",
+        type: "TEST",
+        severity: "INFO",
+        status: "OPEN",
+        description: "This is a test notification. No action is needed.",
+        affectedStartDate: new Date(),
+        affectedEndDate: new Date(),
+        solarUnit: { id: "test", serialNumber: "TEST" },
+      },
+    };
+
+    const targets: { channel: "EMAIL" | "WEBHOOK"; target: string }[] = [];
+    if (preference.email?.enabled) targets.push({ channel: "EMAIL", target: actor.user.email });
+    if (preference.webhook?.enabled && preference.webhook.url) {
+      targets.push({ channel: "WEBHOOK", target: preference.webhook.url });
+    }
+    if (targets.length === 0) {
+      throw new ValidationError("No notification channel is enabled");
+    }
+
+    const deliveries = [];
+    for (const { channel, target } of targets) {
+      const delivery = await NotificationDelivery.create({
+        userId: actor.user._id,
+        channel,
+        event: "TEST",
+        target,
+        payload,
+      });
+      deliveries.push(await attemptDelivery(delivery));
+    }
+
+    res.status(200).json(deliveries);
+  } catch (error) {
+    next(error);
+  }
+};
+
+const buildDeliveryQuery = (params: Request["query"]) => {
+  const results = GetNotificationDeliveriesQueryDto.safeParse(params);
+  if (!results.success) {
+    throw new ValidationError(results.error.message);
+  }
+  const { status, channel, anomalyId, limit } = results.data;
+
+  const query: any = {};
+  if (status) query.status = status;
+  if (channel) query.channel = channel;
+  if (anomalyId) {
+    if (!mongoose.isValidObjectId(anomalyId)) {
+      throw new ValidationError("Invalid anomaly id");
+    }
+    query.anomalyId = anomalyId;
+  }
+  return { query, limit };
+};
+
+/**
+ * Get the signed-in user's delivery log
+ */
+export const getMyNotificationDeliveries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { query, limit } = buildDeliveryQuery(req.query);
+    const actor = await getActor(req);
+
+    const deliveries = await NotificationDelivery.find({ ...query, userId: actor.user._id })
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.status(200).json(deliveries);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the delivery log for every user (admin only)
+ */
+export const getAllNotificationDeliveries = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { query, limit } = buildDeliveryQuery(req.query);
+
+    const deliveries = await NotificationDelivery.find(query)
+      .populate("userId", "firstName lastName email")
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.status(200).json(deliveries);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -55,6 +55,8 @@ export const createSolarUnit = async (
       capacity: data.capacity,
       status: data.status,
       ...(data.userId && { userId: data.userId }),
+      ...(data.location && { location: data.location }),
+      ...(data.region && { region: data.region }),
     };
 
     const createdSolarUnit = await SolarUnit.create(newSolarUnit);
@@ -121,7 +123,7 @@ export const updateSolarUnit = async (
   next: NextFunction
 ) => {
   const { id } = req.params;
-  const { serialNumber, installationDate, capacity, status, userId } = req.body;
+  const { serialNumber, installationDate, capacity, status, userId, location, region } = req.body;
   const solarUnit = await SolarUnit.findById(id);
 
   if (!solarUnit) {
@@ -148,6 +150,14 @@ export const updateSolarUnit = async (
     updateData.userId = userId || null;
   }
 
+  if (location !== undefined) {
+    updateData.location = location;
+  }
+
+  if (region !== undefined) {
+    updateData.region = region;
+  }
+
   const updatedSolarUnit = await SolarUnit.findByIdAndUpdate(id, updateData, { new: true });
 
   res.status(200).json(updatedSolarUnit);
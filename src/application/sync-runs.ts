@@ -0,0 +1,171 @@
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { getAuth } from "@clerk/express";
+import { GetSyncFreshnessQueryDto, GetSyncRunsQueryDto, TriggerSyncDto } from "../domain/dtos/sync";
+import { NotFoundError, ValidationError } from "../domain/errors/error";
+import { SyncRun } from "../infrastructure/entities/SyncRun";
+import { SyncState } from "../infrastructure/entities/SyncState";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { createSyncRun, executeSyncRun } from "./sync";
+
+/**
+ * List sync runs, newest first (admin only)
+ */
+export const getSyncRuns = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = GetSyncRunsQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { trigger, status, solarUnitId, limit } = results.data;
+
+    const query: any = {};
+    if (trigger) {
+      query.trigger = trigger;
+    }
+    if (status) {
+      query.status = status;
+    }
+    if (solarUnitId) {
+      if (!mongoose.isValidObjectId(solarUnitId)) {
+        throw new ValidationError("Invalid solar unit id");
+      }
+      query["units.solarUnitId"] = solarUnitId;
+    }
+
+    const syncRuns = await SyncRun.find(query).sort({ startedAt: -1 }).limit(limit);
+
+    res.status(200).json(syncRuns);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a single sync run (admin only)
+ */
+export const getSyncRunById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid sync run id");
+    }
+
+    const syncRun = await SyncRun.findById(id);
+    if (!syncRun) {
+      throw new NotFoundError("Sync run not found");
+    }
+
+    res.status(200).json(syncRun);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Trigger a manual sync for one solar unit, or the whole fleet when no unit is given (admin only)
+ * Responds immediately with the RUNNING sync run - poll it for the outcome
+ */
+export const triggerSync = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = TriggerSyncDto.safeParse(req.body || {});
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { solarUnitId } = results.data;
+
+    let solarUnits;
+    if (solarUnitId) {
+      if (!mongoose.isValidObjectId(solarUnitId)) {
+        throw new ValidationError("Invalid solar unit id");
+      }
+      const solarUnit = await SolarUnit.findById(solarUnitId);
+      if (!solarUnit) {
+        throw new NotFoundError("Solar unit not found");
+      }
+      solarUnits = [solarUnit];
+    } else {
+      solarUnits = await SolarUnit.find();
+    }
+
+    const auth = getAuth(req);
+    const syncRun = await createSyncRun("MANUAL", auth.userId);
+
+    res.status(202).json(syncRun);
+
+    executeSyncRun(syncRun, solarUnits, { detectAnomalies: true }).catch((error) =>
+      console.error(`Manual sync run ${syncRun._id} failed:`, error)
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get data freshness and sync health for every solar unit (admin only)
+ */
+export const getSyncFreshness = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const results = GetSyncFreshnessQueryDto.safeParse(req.query);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { staleAfterHours } = results.data;
+    const staleThreshold = new Date(Date.now() - staleAfterHours * 60 * 60 * 1000);
+
+    const [solarUnits, syncStates, lastRecordByUnit] = await Promise.all([
+      SolarUnit.find().populate("userId", "firstName lastName email"),
+      SyncState.find(),
+      EnergyGenerationRecord.aggregate([
+        { $group: { _id: "$solarUnitId", lastTimestamp: { $max: "$timestamp" } } },
+      ]),
+    ]);
+
+    const syncStateMap = new Map(syncStates.map((s) => [s.solarUnitId.toString(), s]));
+    const lastRecordMap = new Map(lastRecordByUnit.map((e) => [e._id.toString(), e.lastTimestamp as Date]));
+
+    const units = solarUnits.map((solarUnit) => {
+      const id = solarUnit._id.toString();
+      const syncState = syncStateMap.get(id);
+      const lastRecordAt = lastRecordMap.get(id) || null;
+
+      return {
+        solarUnitId: id,
+        serialNumber: solarUnit.serialNumber,
+        status: solarUnit.status,
+        user: solarUnit.userId,
+        lastRecordAt,
+        lastSyncAttemptAt: syncState?.lastAttemptAt || null,
+        lastSyncSuccessAt: syncState?.lastSuccessAt || null,
+        lastSyncError: syncState?.lastError || null,
+        consecutiveFailures: syncState?.consecutiveFailures || 0,
+        isStale: !lastRecordAt || lastRecordAt < staleThreshold,
+      };
+    });
+
+    res.status(200).json({
+      staleAfterHours,
+      staleCount: units.filter((unit) => unit.isStale).length,
+      units,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
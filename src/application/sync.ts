@@ -0,0 +1,306 @@
+import mongoose from "mongoose";
+import { DataApiClient } from "../infrastructure/data-api/data-api-client";
+import { EnergyGenerationRecord } from "../infrastructure/entities/EnergyGenerationRecord";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { SyncState } from "../infrastructure/entities/SyncState";
+import { SyncRun } from "../infrastructure/entities/SyncRun";
+import { detectNewAnomalies, markDetectionDirty } from "./anomaly-detection";
+
+/**
+ * Sync Engine
+ *
+ * Single implementation of the data API sync used by both the /solar-units/me
+ * middleware and the scheduled job. Each unit keeps its own cursor (latest
+ * synced timestamp) and records are upserted on (solarUnitId, timestamp),
+ * so re-running a sync can never create duplicates. A failing unit is
+ * recorded on its sync state and does not stop the others. Fetching goes
+ * through the DataApiClient (timeouts, retries, circuit breaker, paging).
+ *
+ * Every run is persisted as a SyncRun with per-unit counts and errors.
+ * Syncs and backfills of a unit hold a lease on its sync state while they
+ * write records, so they never run at the same time.
+ */
+
+export interface EnergyRecordInput {
+  energyGenerated: number;
+  timestamp: Date;
+  intervalHours: number;
+}
+
+export type SyncTrigger = "CRON" | "USER" | "MANUAL" | "BACKFILL";
+
+export interface SyncResult {
+  solarUnitId: string;
+  serialNumber: string;
+  startedAt: Date;
+  finishedAt: Date;
+  fetched: number;
+  inserted: number;
+  skipped: number;
+  error?: string;
+  detectionError?: string;
+}
+
+interface SyncOptions {
+  detectAnomalies?: boolean;
+}
+
+interface SyncRunOptions extends SyncOptions {
+  trigger: SyncTrigger;
+  triggeredBy?: string | null;
+}
+
+// Long enough for a backfill of a long window; a crashed run frees the unit once it expires
+const SYNC_LEASE_MS = 30 * 60 * 1000;
+
+let dataApiClient: DataApiClient | null = null;
+
+export const getDataApiClient = (): DataApiClient => {
+  if (!dataApiClient) {
+    dataApiClient = DataApiClient.fromEnv();
+  }
+  return dataApiClient;
+};
+
+/**
+ * Replaces the Data API client (e.g. one pointed at the mock Data API server)
+ */
+export const setDataApiClient = (client: DataApiClient) => {
+  dataApiClient = client;
+};
+
+/**
+ * Takes the unit's sync lease, returning its expiry, or null when another sync or backfill holds it
+ */
+export const acquireSyncLease = async (solarUnitId: string): Promise<Date | null> => {
+  const now = new Date();
+  const runningUntil = new Date(now.getTime() + SYNC_LEASE_MS);
+  try {
+    await SyncState.findOneAndUpdate(
+      { solarUnitId, $or: [{ runningUntil: { $exists: false } }, { runningUntil: { $lte: now } }] },
+      { $set: { runningUntil } },
+      { upsert: true }
+    );
+    return runningUntil;
+  } catch (error: any) {
+    // The upsert collides with the existing state when the lease is held
+    if (error?.code === 11000) return null;
+    throw error;
+  }
+};
+
+export const releaseSyncLease = (solarUnitId: string, runningUntil: Date) =>
+  SyncState.updateOne({ solarUnitId, runningUntil }, { $unset: { runningUntil: 1 } });
+
+/**
+ * Inserts records that don't exist yet for the unit
+ * Existing timestamps are left untouched, unless `overwrite` is set (used by backfills)
+ * Written records are marked for anomaly detection when they are older than its watermark
+ */
+export const upsertEnergyGenerationRecords = async (
+  solarUnitId: mongoose.Types.ObjectId,
+  records: EnergyRecordInput[],
+  { overwrite = false }: { overwrite?: boolean } = {}
+): Promise<{ inserted: number; updated: number; skipped: number }> => {
+  if (records.length === 0) {
+    return { inserted: 0, updated: 0, skipped: 0 };
+  }
+
+  const result = await EnergyGenerationRecord.bulkWrite(
+    records.map((record) => {
+      const values = {
+        energyGenerated: record.energyGenerated,
+        intervalHours: record.intervalHours,
+      };
+      return {
+        updateOne: {
+          filter: { solarUnitId, timestamp: record.timestamp },
+          update: overwrite ? { $set: values } : { $setOnInsert: values },
+          upsert: true,
+        },
+      };
+    }),
+    { ordered: false }
+  );
+
+  // Records landing behind the detection watermark (late data, backfills) are analyzed again
+  const written =
+    result.modifiedCount > 0
+      ? records
+      : Object.keys(result.upsertedIds || {}).map((index) => records[Number(index)]);
+  if (written.length > 0) {
+    await markDetectionDirty(
+      solarUnitId.toString(),
+      written.reduce((earliest, record) => (record.timestamp < earliest ? record.timestamp : earliest), written[0].timestamp)
+    );
+  }
+
+  return {
+    inserted: result.upsertedCount,
+    updated: result.modifiedCount,
+    skipped: records.length - result.upsertedCount - result.modifiedCount,
+  };
+};
+
+/**
+ * Syncs one solar unit from its cursor onwards
+ * Never throws - failures are returned and stored on the unit's sync state
+ */
+export const syncSolarUnit = async (
+  solarUnit: { _id: mongoose.Types.ObjectId; serialNumber: string },
+  { detectAnomalies = false }: SyncOptions = {}
+): Promise<SyncResult> => {
+  const result: SyncResult = {
+    solarUnitId: solarUnit._id.toString(),
+    serialNumber: solarUnit.serialNumber,
+    startedAt: new Date(),
+    finishedAt: new Date(),
+    fetched: 0,
+    inserted: 0,
+    skipped: 0,
+  };
+
+  // Skipped without touching the sync state, the next run picks the unit up again
+  const lease = await acquireSyncLease(result.solarUnitId);
+  if (!lease) {
+    result.error = "A sync or backfill of this solar unit is already running";
+    console.log(`Sync skipped for solar unit ${solarUnit.serialNumber}: ${result.error}`);
+    return result;
+  }
+
+  const syncState =
+    (await SyncState.findOne({ solarUnitId: solarUnit._id })) ||
+    new SyncState({ solarUnitId: solarUnit._id });
+  syncState.lastAttemptAt = new Date();
+
+  try {
+    // Units synced before cursors existed start from their latest stored record
+    let cursor = syncState.cursor;
+    if (!cursor) {
+      const lastSyncedRecord = await EnergyGenerationRecord.findOne({
+        solarUnitId: solarUnit._id,
+      }).sort({ timestamp: -1 });
+      cursor = lastSyncedRecord?.timestamp || null;
+    }
+
+    // Pages are written as they arrive so a failure part-way keeps the progress made
+    for await (const page of getDataApiClient().fetchRecordPages(solarUnit.serialNumber, cursor)) {
+      const pageRecords = page.records.map((record) => ({
+        energyGenerated: record.energyGenerated,
+        timestamp: new Date(record.timestamp),
+        intervalHours: record.intervalHours,
+      }));
+
+      const { inserted, skipped } = await upsertEnergyGenerationRecords(solarUnit._id, pageRecords);
+      result.fetched += page.records.length + page.invalid;
+      result.inserted += inserted;
+      result.skipped += skipped + page.invalid;
+
+      if (page.invalid > 0) {
+        console.warn(`Skipped ${page.invalid} invalid records from the data API for solar unit ${solarUnit.serialNumber}`);
+      }
+
+      for (const record of pageRecords) {
+        if (!cursor || record.timestamp > cursor) {
+          cursor = record.timestamp;
+        }
+      }
+      syncState.cursor = cursor;
+    }
+
+    syncState.lastSuccessAt = new Date();
+    syncState.lastError = null;
+    syncState.consecutiveFailures = 0;
+    await syncState.save();
+
+    console.log(`Synced solar unit ${solarUnit.serialNumber}: ${result.inserted} new, ${result.skipped} skipped`);
+  } catch (error: any) {
+    result.error = error?.message || String(error);
+    console.error(`Sync failed for solar unit ${solarUnit.serialNumber}:`, error);
+
+    syncState.lastError = result.error;
+    syncState.consecutiveFailures = (syncState.consecutiveFailures || 0) + 1;
+    await syncState.save().catch((saveError) =>
+      console.error(`Failed to save sync state for solar unit ${solarUnit.serialNumber}:`, saveError)
+    );
+  } finally {
+    await releaseSyncLease(result.solarUnitId, lease).catch((error) =>
+      console.error(`Failed to release the sync lease for solar unit ${solarUnit.serialNumber}:`, error)
+    );
+  }
+
+  // The records are stored either way, so a detection failure does not fail the sync
+  if (detectAnomalies && result.inserted > 0) {
+    try {
+      const summary = await detectNewAnomalies(solarUnit._id.toString());
+      if (!summary) {
+        result.detectionError = "Anomaly detection failed or was already running; the records are analyzed on the next run";
+      }
+    } catch (error: any) {
+      result.detectionError = error?.message || String(error);
+      console.error(`Anomaly detection failed after syncing solar unit ${solarUnit.serialNumber}:`, error);
+    }
+  }
+
+  result.finishedAt = new Date();
+  return result;
+};
+
+/**
+ * Creates a SyncRun in the RUNNING state
+ */
+export const createSyncRun = async (trigger: SyncTrigger, triggeredBy?: string | null) =>
+  SyncRun.create({ trigger, triggeredBy: triggeredBy || undefined });
+
+/**
+ * Syncs the given units one at a time, isolating failures per unit, and records the outcome on the run
+ */
+export const executeSyncRun = async (
+  run: InstanceType<typeof SyncRun>,
+  solarUnits: { _id: mongoose.Types.ObjectId; serialNumber: string }[],
+  options: SyncOptions = {}
+) => {
+  const results: SyncResult[] = [];
+
+  for (const solarUnit of solarUnits) {
+    results.push(await syncSolarUnit(solarUnit, options));
+  }
+
+  const failed = results.filter((r) => r.error).length;
+
+  run.set({
+    units: results.map((r) => ({ ...r, solarUnitId: new mongoose.Types.ObjectId(r.solarUnitId) })),
+    totals: {
+      fetched: results.reduce((sum, r) => sum + r.fetched, 0),
+      inserted: results.reduce((sum, r) => sum + r.inserted, 0),
+      skipped: results.reduce((sum, r) => sum + r.skipped, 0),
+      failedUnits: failed,
+    },
+    status: failed === 0 ? "SUCCEEDED" : failed === results.length ? "FAILED" : "PARTIAL",
+    finishedAt: new Date(),
+  });
+  await run.save();
+
+  console.log(`Sync run ${run._id} (${run.trigger}) completed for ${results.length} solar units (${failed} failed)`);
+
+  return run;
+};
+
+/**
+ * Syncs the given units as a single recorded run
+ */
+export const runSync = async (
+  solarUnits: { _id: mongoose.Types.ObjectId; serialNumber: string }[],
+  { trigger, triggeredBy, ...options }: SyncRunOptions
+) => {
+  const run = await createSyncRun(trigger, triggeredBy);
+  return executeSyncRun(run, solarUnits, options);
+};
+
+/**
+ * Syncs every solar unit as a single recorded run
+ */
+export const syncAllSolarUnits = async (options: SyncRunOptions) => {
+  const solarUnits = await SolarUnit.find();
+  return runSync(solarUnits, options);
+};
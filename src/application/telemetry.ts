@@ -0,0 +1,107 @@
+import crypto from "crypto";
+import { NextFunction, Request, Response } from "express";
+import mongoose from "mongoose";
+import { TelemetryBatchDto } from "../domain/dtos/telemetry";
+import { NotFoundError, ValidationError } from "../domain/errors/error";
+import { SolarUnit } from "../infrastructure/entities/SolarUnit";
+import { detectNewAnomalies } from "./anomaly-detection";
+import { upsertEnergyGenerationRecords } from "./sync";
+
+const hashApiKey = (apiKey: string) => crypto.createHash("sha256").update(apiKey).digest("hex");
+
+/**
+ * Constant-time comparison of a presented API key against the stored hash
+ */
+export const verifyDeviceApiKey = (apiKey: string, apiKeyHash: string): boolean => {
+  const presented = Buffer.from(hashApiKey(apiKey), "hex");
+  const stored = Buffer.from(apiKeyHash, "hex");
+  return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+};
+
+/**
+ * Generate (or rotate) the telemetry API key for a solar unit (admin only)
+ * The plaintext key is only returned once - only its hash is stored
+ */
+export const generateDeviceApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.isValidObjectId(id)) {
+      throw new ValidationError("Invalid solar unit id");
+    }
+
+    const solarUnit = await SolarUnit.findById(id);
+    if (!solarUnit) {
+      throw new NotFoundError("Solar unit not found");
+    }
+
+    const apiKey = `su_${crypto.randomBytes(32).toString("base64url")}`;
+    solarUnit.apiKeyHash = hashApiKey(apiKey);
+    solarUnit.apiKeyCreatedAt = new Date();
+    await solarUnit.save();
+
+    res.status(201).json({
+      serialNumber: solarUnit.serialNumber,
+      apiKey,
+      createdAt: solarUnit.apiKeyCreatedAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Ingest a batch of readings pushed by a device or gateway
+ * Readings are deduplicated by timestamp, both within the batch and against stored records
+ */
+export const ingestTelemetryReadings = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const solarUnit = res.locals.solarUnit;
+
+    const results = TelemetryBatchDto.safeParse(req.body);
+    if (!results.success) {
+      throw new ValidationError(results.error.message);
+    }
+    const { readings } = results.data;
+
+    // Later readings in the batch win over earlier ones for the same timestamp
+    const byTimestamp: Record<string, (typeof readings)[number]> = {};
+    for (const reading of readings) {
+      byTimestamp[new Date(reading.timestamp).toISOString()] = reading;
+    }
+    const timestamps = Object.keys(byTimestamp);
+
+    const { inserted } = await upsertEnergyGenerationRecords(
+      solarUnit._id,
+      timestamps.map((t) => ({
+        energyGenerated: byTimestamp[t].energyGenerated,
+        timestamp: new Date(t),
+        intervalHours: byTimestamp[t].intervalHours,
+      }))
+    );
+
+    if (inserted > 0) {
+      console.log(`Ingested ${inserted} telemetry readings for solar unit ${solarUnit.serialNumber}`);
+    }
+
+    res.status(200).json({
+      received: readings.length,
+      inserted,
+      duplicates: readings.length - inserted,
+    });
+
+    // Run anomaly detection after the batch is accepted, without holding up the device
+    if (inserted > 0) {
+      detectNewAnomalies(solarUnit._id.toString());
+    }
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,132 @@
+import { DailyWeather, WeatherProvider } from "../infrastructure/weather/weather-provider";
+import { OpenMeteoWeatherProvider } from "../infrastructure/weather/open-meteo-weather-provider";
+import { FixtureWeatherProvider } from "../infrastructure/weather/fixture-weather-provider";
+
+/**
+ * Weather Service
+ *
+ * Fetches daily irradiance and temperature for a solar unit's location and
+ * computes the performance ratio (PR): actual yield divided by the yield the
+ * unit should have produced under the measured irradiation.
+ *
+ * PR = E_actual / (P_kWp × H / G_STC × temperature correction)
+ */
+
+// Irradiance at standard test conditions (kW/m²)
+const STC_IRRADIANCE = 1;
+// Typical crystalline silicon power temperature coefficient (per °C)
+const TEMPERATURE_COEFFICIENT = -0.004;
+// Cell temperature at standard test conditions (°C)
+const STC_CELL_TEMPERATURE = 25;
+// Average daytime rise of cell temperature above ambient (°C)
+const CELL_TEMPERATURE_RISE = 20;
+
+let weatherProvider: WeatherProvider | null = null;
+
+/**
+ * Returns the configured weather provider
+ * WEATHER_PROVIDER=fixture serves data from WEATHER_FIXTURE_PATH (default: the bundled fixture) instead of the network
+ */
+export const getWeatherProvider = (): WeatherProvider => {
+  if (!weatherProvider) {
+    weatherProvider =
+      process.env.WEATHER_PROVIDER === "fixture"
+        ? FixtureWeatherProvider.fromFile(process.env.WEATHER_FIXTURE_PATH)
+        : new OpenMeteoWeatherProvider();
+  }
+  return weatherProvider;
+};
+
+/**
+ * Replaces the weather provider (e.g. with a FixtureWeatherProvider in tests)
+ */
+export const setWeatherProvider = (provider: WeatherProvider) => {
+  weatherProvider = provider;
+};
+
+/**
+ * Fetches daily weather for a solar unit, keyed by date (YYYY-MM-DD)
+ * Returns null when the unit has no location or the provider fails,
+ * so callers can fall back to weather-agnostic metrics
+ */
+export const getDailyWeatherForSolarUnit = async (
+  solarUnit: { serialNumber: string; location?: { latitude?: number | null; longitude?: number | null } | null },
+  startDate: Date,
+  endDate: Date
+): Promise<Map<string, DailyWeather> | null> => {
+  const latitude = solarUnit.location?.latitude;
+  const longitude = solarUnit.location?.longitude;
+  if (latitude == null || longitude == null) {
+    return null;
+  }
+
+  try {
+    const days = await getWeatherProvider().getDailyWeather(
+      { latitude, longitude },
+      startDate.toISOString().slice(0, 10),
+      endDate.toISOString().slice(0, 10)
+    );
+    return new Map(days.map((day) => [day.date, day]));
+  } catch (error) {
+    console.error(`Failed to fetch weather for solar unit ${solarUnit.serialNumber}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Expected energy (kWh) for a unit of the given capacity under the given weather
+ */
+export const calculateExpectedEnergy = (capacityInKW: number, weather: DailyWeather): number => {
+  const cellTemperature = weather.temperatureMean + CELL_TEMPERATURE_RISE;
+  const temperatureFactor = 1 + TEMPERATURE_COEFFICIENT * (cellTemperature - STC_CELL_TEMPERATURE);
+  return capacityInKW * (weather.irradiation / STC_IRRADIANCE) * temperatureFactor;
+};
+
+/**
+ * Performance ratio as a percentage, or null when no yield was expected
+ */
+export const calculatePerformanceRatio = (
+  actualEnergy: number,
+  expectedEnergy: number
+): number | null => {
+  if (expectedEnergy <= 0) {
+    return null;
+  }
+  return parseFloat(((actualEnergy / expectedEnergy) * 100).toFixed(2));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Approximate sunrise and sunset (UTC) for a date and location
+ * Uses the solar declination and equation of time, accurate to a few minutes
+ * Returns null during polar night; during midnight sun the whole day is daylight
+ */
+export const getDaylightWindow = (
+  date: string,
+  latitude: number,
+  longitude: number
+): { sunrise: Date; sunset: Date } | null => {
+  const dayStart = new Date(`${date}T00:00:00Z`).getTime();
+  const dayOfYear = Math.floor((dayStart - Date.UTC(new Date(dayStart).getUTCFullYear(), 0, 0)) / DAY_MS);
+
+  const declination = toRadians(23.44) * Math.sin((2 * Math.PI * (284 + dayOfYear)) / 365);
+  const b = (2 * Math.PI * (dayOfYear - 81)) / 364;
+  const equationOfTime = 9.87 * Math.sin(2 * b) - 7.53 * Math.cos(b) - 1.5 * Math.sin(b); // minutes
+  const solarNoon = 720 - 4 * longitude - equationOfTime; // minutes after midnight UTC
+
+  // Sun's upper limb at the horizon, corrected for refraction
+  const phi = toRadians(latitude);
+  const cosHourAngle =
+    (Math.sin(toRadians(-0.833)) - Math.sin(phi) * Math.sin(declination)) /
+    (Math.cos(phi) * Math.cos(declination));
+
+  if (cosHourAngle > 1) return null;
+  const halfDay = cosHourAngle < -1 ? 720 : (Math.acos(cosHourAngle) * 180) / Math.PI * 4;
+
+  return {
+    sunrise: new Date(dayStart + (solarNoon - halfDay) * 60 * 1000),
+    sunset: new Date(dayStart + (solarNoon + halfDay) * 60 * 1000),
+  };
+};
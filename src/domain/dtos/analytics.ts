@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const GetFleetAnalyticsQueryDto = z.object({
+  days: z.coerce.number().int().positive().default(30),
+  top: z.coerce.number().int().min(1).max(50).default(5),
+  staleAfterHours: z.coerce.number().positive().default(24),
+});
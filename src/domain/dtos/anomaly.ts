@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { DetectionThresholdOverridesDto } from "./detection-config";
+
+export const RescanAnomaliesDto = z.object({
+  solarUnitId: z.string().min(1).optional(),
+});
+
+export const AnomalyStatusDto = z.enum([
+  "OPEN",
+  "ACKNOWLEDGED",
+  "IN_PROGRESS",
+  "RESOLVED",
+  "FALSE_POSITIVE",
+]);
+
+export const UpdateAnomalyStatusDto = z.object({
+  status: AnomalyStatusDto,
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const ResolveAnomalyDto = z.object({
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const AssignAnomalyDto = z.object({
+  // User id of the staff member, null to unassign
+  assigneeId: z.string().min(1).nullable(),
+});
+
+export const CreateAnomalyCommentDto = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+export const GetFalsePositivesQueryDto = z.object({
+  type: z.string().min(1).optional(),
+  solarUnitId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const GetAnomalyTrendsQueryDto = z.object({
+  granularity: z.enum(["week", "month"]).default("week"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  top: z.coerce.number().int().min(1).max(50).default(5),
+});
+
+export const BacktestAnomaliesDto = z.object({
+  solarUnitId: z.string().min(1),
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+  // Registry ids of the detectors to run, defaults to those enabled for the unit
+  detectors: z.array(z.string().min(1)).min(1).optional(),
+  // Merged over the unit's effective thresholds for this run only
+  overrides: DetectionThresholdOverridesDto.optional(),
+  // Score the results against anomalies already closed as resolved or false positive
+  score: z.boolean().default(false),
+});
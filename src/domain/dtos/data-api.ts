@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const DataAPIEnergyGenerationRecordDto = z.object({
+  _id: z.string(),
+  serialNumber: z.string(),
+  energyGenerated: z.number(),
+  timestamp: z.string(),
+  intervalHours: z.number(),
+  __v: z.number(),
+});
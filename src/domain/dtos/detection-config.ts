@@ -0,0 +1,119 @@
+import { z } from "zod";
+
+const ratio = z.number().min(0).max(1);
+const percent = z.number().min(0).max(100);
+const days = z.number().int().min(1).max(365);
+
+const MechanicalThresholdsDto = z.strictObject({
+  // Zero output only counts as a failure if the previous day produced more than this share of the average
+  zeroPreviousRatio: ratio,
+  // A drop is flagged below this share of the previous day...
+  dropRatio: ratio,
+  // ...and this share of the average
+  dropAverageRatio: ratio,
+  criticalDropPercent: percent,
+});
+
+const TemperatureThresholdsDto = z.strictObject({
+  windowDays: days,
+  daylightHours: z.number().min(1).max(24),
+  expectedRatio: ratio,
+  warningEfficiencyPercent: percent,
+});
+
+const ShadingThresholdsDto = z.strictObject({
+  minDays: days,
+  peakDays: days,
+  baselineRatio: ratio,
+  lowDayRatio: ratio,
+  minLowDays: days,
+  warningReductionPercent: percent,
+});
+
+const SensorErrorThresholdsDto = z.strictObject({
+  minDays: days,
+  maxDaylightHours: z.number().min(1).max(24),
+  maxFactor: z.number().min(1).max(10),
+  iqrMultiplier: z.number().min(0.5).max(10),
+});
+
+const DegradationThresholdsDto = z.strictObject({
+  // Annual degradation rate (%) above which a DEGRADATION anomaly is raised
+  warrantyThreshold: z.number().min(0).max(100),
+  criticalMultiplier: z.number().min(1).max(10),
+});
+
+const DataGapThresholdsDto = z.strictObject({
+  minDayCompleteness: percent,
+});
+
+const IntradayThresholdsDto = z.strictObject({
+  // UTC daylight window for units without a location
+  daylightStartHour: z.number().int().min(0).max(23),
+  daylightEndHour: z.number().int().min(1).max(24),
+  // Hours after sunrise and before sunset where low output is normal
+  daylightMarginHours: z.number().min(0).max(6),
+  minOutageHours: z.number().min(0.5).max(24),
+  flatlineMinHours: z.number().min(0.5).max(24),
+  clippingMinHours: z.number().min(0.5).max(24),
+  // Plateaus below this share of capacity are not treated as clipping
+  clippingCapacityRatio: ratio,
+  // Readings within this relative distance of the day's peak belong to the plateau
+  clippingTolerance: z.number().min(0).max(0.2),
+});
+
+const AutoResolveThresholdsDto = z.strictObject({
+  // Consecutive complete days of normal output needed before an anomaly is closed
+  recoveryDays: z.number().int().min(1).max(60),
+  // Share of the pre-anomaly baseline a day must reach to count as recovered
+  recoveryRatio: ratio,
+});
+
+const BelowAverageThresholdsDto = z.strictObject({
+  // Days further than this below the window average are flagged
+  deviationPercent: percent,
+  warningDeviationPercent: percent,
+});
+
+const PeerComparisonThresholdsDto = z.strictObject({
+  // Compare with all active units, or only units in the same region (the fleet when the unit has no region)
+  peerGroup: z.enum(["FLEET", "REGION"]),
+  minPeers: z.number().int().min(2).max(1000),
+  // Robust z-score below the peer median from which a day is flagged
+  zScoreThreshold: z.number().min(1).max(20),
+  criticalZScore: z.number().min(1).max(50),
+  // Flagged days must also be at least this far below the peer median
+  minDeviationPercent: percent,
+});
+
+// Detectors switched on or off by registry id, the rest use their own default
+const DetectorSwitchesDto = z.record(z.string().min(1), z.boolean());
+
+export const DetectionThresholdsDto = z.strictObject({
+  mechanical: MechanicalThresholdsDto,
+  temperature: TemperatureThresholdsDto,
+  shading: ShadingThresholdsDto,
+  sensorError: SensorErrorThresholdsDto,
+  degradation: DegradationThresholdsDto,
+  dataGap: DataGapThresholdsDto,
+  intraday: IntradayThresholdsDto,
+  autoResolve: AutoResolveThresholdsDto,
+  belowAverage: BelowAverageThresholdsDto,
+  peerComparison: PeerComparisonThresholdsDto,
+  detectors: DetectorSwitchesDto,
+});
+
+// Partial thresholds, merged over the fleet defaults (or the current fleet config)
+export const DetectionThresholdOverridesDto = z.strictObject({
+  mechanical: MechanicalThresholdsDto.partial().optional(),
+  temperature: TemperatureThresholdsDto.partial().optional(),
+  shading: ShadingThresholdsDto.partial().optional(),
+  sensorError: SensorErrorThresholdsDto.partial().optional(),
+  degradation: DegradationThresholdsDto.partial().optional(),
+  dataGap: DataGapThresholdsDto.partial().optional(),
+  intraday: IntradayThresholdsDto.partial().optional(),
+  autoResolve: AutoResolveThresholdsDto.partial().optional(),
+  belowAverage: BelowAverageThresholdsDto.partial().optional(),
+  peerComparison: PeerComparisonThresholdsDto.partial().optional(),
+  detectors: DetectorSwitchesDto.optional(),
+});
@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const ExportQueryDto = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+});
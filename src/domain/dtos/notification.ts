@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const SeverityDto = z.enum(["CRITICAL", "WARNING", "INFO"]);
+
+export const UpdateNotificationPreferencesDto = z.object({
+  email: z
+    .object({
+      enabled: z.boolean().optional(),
+      minSeverity: SeverityDto.optional(),
+    })
+    .optional(),
+  webhook: z
+    .object({
+      enabled: z.boolean().optional(),
+      url: z.url({ protocol: /^https?$/ }).nullable().optional(),
+      minSeverity: SeverityDto.optional(),
+    })
+    .optional(),
+  anomalyTypes: z.array(z.string().min(1)).optional(),
+  allUnits: z.boolean().optional(),
+});
+
+export const GetNotificationDeliveriesQueryDto = z.object({
+  status: z.enum(["PENDING", "RETRYING", "DELIVERED", "FAILED"]).optional(),
+  channel: z.enum(["EMAIL", "WEBHOOK"]).optional(),
+  anomalyId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
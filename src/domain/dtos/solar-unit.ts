@@ -1,11 +1,18 @@
 import { z } from "zod";
 
+export const SolarUnitLocationDto = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
 export const CreateSolarUnitDto = z.object({
   serialNumber: z.string().min(1),
   installationDate: z.string().min(1),
   capacity: z.number(),
   status: z.enum(["ACTIVE", "INACTIVE", "MAINTENANCE"]),
   userId: z.string().optional(),
+  location: SolarUnitLocationDto.optional(),
+  region: z.string().min(1).optional(),
 });
 
 export const UpdateSolarUnitDto = z.object({
@@ -14,13 +21,83 @@ export const UpdateSolarUnitDto = z.object({
   capacity: z.number(),
   status: z.enum(["ACTIVE", "INACTIVE", "MAINTENANCE"]),
   userId: z.string().min(1),
+  location: SolarUnitLocationDto.optional(),
+  region: z.string().min(1).optional(),
 })
 
-export const GetAllEnergyGenerationRecordsQueryDto = z.object({
-  groupBy: z.enum(["date"]).optional(),
-  limit: z.string().min(1).optional(),
-});
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "date" is kept as an alias of "day" for existing clients
+export const EnergyBucketDto = z.enum(["hour", "day", "date", "week", "month", "year"]);
+
+// Page size cap for the raw (ungrouped) record listing
+export const MAX_RECORDS_PAGE_SIZE = 1000;
+
+export const GetAllEnergyGenerationRecordsQueryDto = z
+  .object({
+    groupBy: EnergyBucketDto.optional(),
+    limit: z.coerce.number().int().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    timezone: z.string().refine(isValidTimezone, "Invalid timezone").default("UTC"),
+    cursor: z.string().min(1).optional(),
+    order: z.enum(["asc", "desc"]).default("desc"),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+  })
+  .refine((query) => query.groupBy || !query.limit || query.limit <= MAX_RECORDS_PAGE_SIZE, {
+    message: `limit must be at most ${MAX_RECORDS_PAGE_SIZE}`,
+    path: ["limit"],
+  });
 
 export const GetCapacityFactorQueryDto = z.object({
   days: z.string().min(1).optional(),
 });
+
+export const GetForecastQueryDto = z.object({
+  days: z.coerce.number().int().min(1).max(14).default(7),
+});
+
+export const GetImpactQueryDto = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    groupBy: EnergyBucketDto.optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must be before to",
+  });
+
+// from and to are checked once their defaults are filled in
+export const GetCompletenessQueryDto = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  fill: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+
+export const CorrectEnergyRecordDto = z
+  .object({
+    action: z.enum(["OVERRIDE", "EXCLUDE", "INCLUDE", "ANNOTATE", "REVERT"]),
+    // Corrected value in kWh, required for OVERRIDE
+    energyGenerated: z.number().min(0).optional(),
+    reason: z.string().trim().min(1).max(500),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((body) => body.action !== "OVERRIDE" || body.energyGenerated !== undefined, {
+    message: "energyGenerated is required for OVERRIDE",
+  })
+  .refine((body) => body.action !== "ANNOTATE" || body.note !== undefined, {
+    message: "note is required for ANNOTATE",
+  });
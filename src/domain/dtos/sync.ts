@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const GetSyncRunsQueryDto = z.object({
+  trigger: z.enum(["CRON", "USER", "MANUAL", "BACKFILL"]).optional(),
+  status: z.enum(["RUNNING", "SUCCEEDED", "PARTIAL", "FAILED"]).optional(),
+  solarUnitId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const TriggerSyncDto = z.object({
+  solarUnitId: z.string().min(1).optional(),
+});
+
+export const GetSyncFreshnessQueryDto = z.object({
+  staleAfterHours: z.coerce.number().positive().default(24),
+});
+
+export const BackfillDto = z
+  .object({
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    // merge: insert new and update changed records; replace: also delete local records upstream no longer has
+    mode: z.enum(["merge", "replace"]).default("merge"),
+    dryRun: z.boolean().default(false),
+  })
+  .refine((body) => body.from <= body.to, {
+    message: "from must be before to",
+  });
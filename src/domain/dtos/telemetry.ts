@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+// Device clocks may run slightly ahead; readings further in the future are rejected,
+// as they would move the detection watermark past real data
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export const TelemetryReadingDto = z.object({
+  timestamp: z.iso
+    .datetime({ offset: true })
+    .refine((value) => new Date(value).getTime() <= Date.now() + MAX_CLOCK_SKEW_MS, {
+      message: "Timestamp cannot be in the future",
+    }),
+  energyGenerated: z.number().finite().min(0),
+  intervalHours: z.number().min(0.1).max(24).default(2),
+});
+
+export const TelemetryBatchDto = z.object({
+  readings: z.array(TelemetryReadingDto).min(1).max(1000),
+});
@@ -26,4 +26,24 @@ export class NotFoundError extends Error {
       this.name = "ForbiddenError";
     }
   }
-  
\ No newline at end of file
+
+  export class ConflictError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = "ConflictError";
+    }
+  }
+
+  export class DataApiError extends Error {
+    constructor(message: string, public readonly status?: number) {
+      super(message);
+      this.name = "DataApiError";
+    }
+  }
+
+  export class CircuitOpenError extends Error {
+    constructor(message: string) {
+      super(message);
+      this.name = "CircuitOpenError";
+    }
+  }
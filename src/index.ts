@@ -11,6 +11,11 @@ import energyGenerationRecordRouter from "./api/energy-generation-record";
 import invoicesRouter from "./api/invoices";
 import paymentRouter from "./api/payment";
 import webhooksRouter from "./api/webhooks";
+import analyticsRouter from "./api/analytics";
+import telemetryRouter from "./api/telemetry";
+import syncRouter from "./api/sync";
+import detectionConfigRouter from "./api/detection-config";
+import notificationsRouter from "./api/notifications";
 import { connectDB } from "./infrastructure/db";
 import { handleStripeWebhook } from "./application/payment";
 import { initializeScheduler } from "./infrastructure/scheduler";
@@ -60,6 +65,9 @@ server.use("/api/webhooks", webhooksRouter);
 // Now apply JSON parsing for other routes
 server.use(express.json());
 
+// Device telemetry ingestion (authenticated by device API key)
+server.use("/api/telemetry", telemetryRouter);
+
 // Clerk authentication middleware
 server.use(clerkMiddleware());
 
@@ -70,6 +78,10 @@ server.use("/api/users", usersRouter);
 server.use("/api/anomalies", anomaliesRouter);
 server.use("/api/invoices", invoicesRouter);
 server.use("/api/payments", paymentRouter);
+server.use("/api/analytics", analyticsRouter);
+server.use("/api/sync", syncRouter);
+server.use("/api/detection-config", detectionConfigRouter);
+server.use("/api/notifications", notificationsRouter);
 
 server.use(globalErrorHandler);
 
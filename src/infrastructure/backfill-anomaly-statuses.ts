@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { connectDB } from "./db";
+import { Anomaly } from "./entities/Anomaly";
+
+dotenv.config();
+
+/**
+ * One-off migration for anomalies stored before the anomaly lifecycle existed,
+ * which only have the resolved flag. Mongoose fills in the "OPEN" status default
+ * when such documents are loaded, so without this their resolution is lost.
+ *
+ * Resolved anomalies become RESOLVED, keeping their resolvedAt (or else the
+ * detection time) and resolvedBy "legacy", as who resolved them was not recorded.
+ * All others become OPEN.
+ *
+ * Run with `npm run migrate:backfill-anomaly-statuses`.
+ */
+
+async function backfillAnomalyStatuses() {
+  try {
+    await connectDB();
+
+    // Raw collection updates, so mongoose defaults do not get in the way
+    const resolved = await Anomaly.collection.updateMany({ status: { $exists: false }, resolved: true }, [
+      {
+        $set: {
+          status: "RESOLVED",
+          resolvedAt: { $ifNull: ["$resolvedAt", "$detectionTimestamp"] },
+          resolvedBy: { $ifNull: ["$resolvedBy", "legacy"] },
+        },
+      },
+    ]);
+    const open = await Anomaly.collection.updateMany(
+      { status: { $exists: false } },
+      { $set: { status: "OPEN", resolved: false } }
+    );
+
+    console.log(
+      `Backfilled anomaly statuses: ${resolved.modifiedCount} resolved, ${open.modifiedCount} open`
+    );
+  } catch (err) {
+    console.error("Migration error:", err);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+backfillAnomalyStatuses();
@@ -0,0 +1,62 @@
+import { CircuitOpenError } from "../../domain/errors/error";
+
+type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures before opening
+  resetTimeoutMs: number; // how long to stay open before allowing a trial call
+  // Errors that say the dependency is unhealthy; others (e.g. a 404 for one caller) leave it closed
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Stops calling a failing dependency for a while instead of hammering it
+ * CLOSED -> OPEN after `failureThreshold` consecutive failures,
+ * OPEN -> HALF_OPEN after `resetTimeoutMs`, and one trial call decides
+ * whether to close again or re-open.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "CLOSED";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: CircuitBreakerOptions
+  ) {}
+
+  getState(): CircuitState {
+    if (this.state === "OPEN" && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = "HALF_OPEN";
+    }
+    return this.state;
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.getState() === "OPEN") {
+      throw new CircuitOpenError(`Circuit for ${this.name} is open`);
+    }
+
+    try {
+      const result = await fn();
+      this.state = "CLOSED";
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      // The dependency answered, it just rejected this call
+      if (this.options.isFailure && !this.options.isFailure(error)) {
+        this.state = "CLOSED";
+        this.consecutiveFailures = 0;
+        throw error;
+      }
+
+      this.consecutiveFailures++;
+      if (this.state === "HALF_OPEN" || this.consecutiveFailures >= this.options.failureThreshold) {
+        this.state = "OPEN";
+        this.openedAt = Date.now();
+        console.warn(`Circuit for ${this.name} opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      throw error;
+    }
+  }
+}
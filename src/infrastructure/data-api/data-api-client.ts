@@ -0,0 +1,193 @@
+import { z } from "zod";
+import { DataAPIEnergyGenerationRecordDto } from "../../domain/dtos/data-api";
+import { DataApiError } from "../../domain/errors/error";
+import { CircuitBreaker } from "./circuit-breaker";
+
+export type DataApiRecord = z.infer<typeof DataAPIEnergyGenerationRecordDto>;
+
+export interface DataApiClientOptions {
+  baseUrl: string;
+  timeoutMs: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  pageSize: number;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface DataApiPage {
+  records: DataApiRecord[];
+  invalid: number; // records dropped by schema validation
+}
+
+const DEFAULT_OPTIONS: DataApiClientOptions = {
+  baseUrl: "http://localhost:8001",
+  timeoutMs: 10000,
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  pageSize: 500,
+  failureThreshold: 5,
+  resetTimeoutMs: 60000,
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Network errors, timeouts, rate limiting and server errors are worth retrying, and
+// are the only errors counting towards the circuit breaker - other 4xx responses
+// concern a single unit (e.g. an unknown serial number), not the Data API's health
+// Matched by name: instanceof does not work on Error subclasses when compiled to ES5
+const isRetryable = (error: unknown) => {
+  if ((error as Error)?.name !== "DataApiError") return true;
+  const { status } = error as DataApiError;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+/**
+ * Typed client for the external Data API
+ * Requests time out, are retried with exponential backoff and jitter, and go
+ * through a circuit breaker. Histories are fetched in pages keyed on timestamp.
+ */
+export class DataApiClient {
+  private readonly options: DataApiClientOptions;
+  private readonly breaker: CircuitBreaker;
+
+  constructor(options: Partial<DataApiClientOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.breaker = new CircuitBreaker("data-api", {
+      failureThreshold: this.options.failureThreshold,
+      resetTimeoutMs: this.options.resetTimeoutMs,
+      isFailure: isRetryable,
+    });
+  }
+
+  static fromEnv(): DataApiClient {
+    const number = (value: string | undefined) =>
+      value !== undefined && value !== "" && Number.isFinite(Number(value)) ? Number(value) : undefined;
+
+    const options: Partial<DataApiClientOptions> = {
+      baseUrl: process.env.DATA_API_URL || process.env.API_URL || undefined,
+      timeoutMs: number(process.env.DATA_API_TIMEOUT_MS),
+      maxRetries: number(process.env.DATA_API_MAX_RETRIES),
+      pageSize: number(process.env.DATA_API_PAGE_SIZE),
+    };
+    // Unset values fall back to the defaults
+    Object.keys(options).forEach((key) => {
+      const k = key as keyof DataApiClientOptions;
+      if (options[k] === undefined) delete options[k];
+    });
+
+    return new DataApiClient(options);
+  }
+
+  /**
+   * Yields a unit's records after `since` (and up to `until`, if given), one page at a time, oldest first
+   */
+  async *fetchRecordPages(
+    serialNumber: string,
+    since: Date | null,
+    until: Date | null = null
+  ): AsyncGenerator<DataApiPage> {
+    let cursor = since;
+
+    while (true) {
+      const url = new URL(
+        `${this.options.baseUrl}/api/energy-generation-records/solar-unit/${encodeURIComponent(serialNumber)}`
+      );
+      if (cursor) {
+        url.searchParams.set("sinceTimestamp", cursor.toISOString());
+      }
+      url.searchParams.set("limit", String(this.options.pageSize));
+
+      const body = await this.breaker.execute(() => this.requestWithRetry(url));
+      const items: unknown[] = Array.isArray(body) ? body : Array.isArray(body?.data) ? body.data : [];
+
+      const page: DataApiPage = { records: [], invalid: 0 };
+      for (const item of items) {
+        const parsed = DataAPIEnergyGenerationRecordDto.safeParse(item);
+        if (!parsed.success) {
+          page.invalid++;
+          continue;
+        }
+        // Servers that ignore sinceTimestamp would otherwise repeat old records forever
+        if (cursor && new Date(parsed.data.timestamp) <= cursor) continue;
+        page.records.push(parsed.data);
+      }
+      page.records.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+      // Paging follows the raw items, so a page of invalid records still moves the cursor
+      const lastTimestamp = items.reduce<Date | null>((latest, item) => {
+        const timestamp = new Date((item as any)?.timestamp);
+        return !isNaN(timestamp.getTime()) && (!latest || timestamp > latest) ? timestamp : latest;
+      }, null);
+      const reachedUntil = !!until && !!lastTimestamp && lastTimestamp > until;
+      if (until) {
+        page.records = page.records.filter((record) => new Date(record.timestamp) <= until);
+      }
+
+      if (page.records.length > 0 || page.invalid > 0) {
+        yield page;
+      }
+
+      // A short page is the last one
+      if (items.length < this.options.pageSize || reachedUntil) {
+        return;
+      }
+      if (!lastTimestamp) {
+        throw new DataApiError("Data API returned a full page without timestamps, cannot page past it");
+      }
+      // No progress means the server ignores sinceTimestamp and has nothing newer
+      if (cursor && lastTimestamp <= cursor) {
+        return;
+      }
+      cursor = lastTimestamp;
+    }
+  }
+
+  private async requestWithRetry(url: URL): Promise<any> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await this.request(url);
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+        // Full jitter: a random delay up to the exponential backoff cap
+        const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        const delay = Math.random() * backoff;
+        console.warn(`Data API request failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms:`, (error as Error).message);
+        await sleep(delay);
+        attempt++;
+      }
+    }
+  }
+
+  private async request(url: URL): Promise<any> {
+    let response: globalThis.Response;
+    try {
+      response = await fetch(url.toString(), {
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+        headers: { Accept: "application/json" },
+      });
+    } catch (error: any) {
+      throw new DataApiError(
+        error?.name === "TimeoutError"
+          ? `Data API request timed out after ${this.options.timeoutMs}ms`
+          : `Data API request failed: ${error?.message || error}`
+      );
+    }
+
+    if (!response.ok) {
+      throw new DataApiError(`Data API responded with ${response.status}`, response.status);
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new DataApiError("Data API returned invalid JSON", response.status);
+    }
+  }
+}
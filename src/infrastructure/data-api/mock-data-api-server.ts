@@ -0,0 +1,139 @@
+import http from "http";
+import { AddressInfo } from "net";
+import crypto from "crypto";
+import { DataApiRecord } from "./data-api-client";
+
+/**
+ * In-process stand-in for the external Data API
+ * Serves GET /api/energy-generation-records/solar-unit/:serialNumber with the
+ * same sinceTimestamp/limit semantics, plus knobs for injecting failures and
+ * latency, so the sync engine can be exercised end to end without the network.
+ */
+
+export interface MockDataApiServer {
+  url: string;
+  requestCount: number;
+  setRecords(serialNumber: string, records: DataApiRecord[]): void;
+  // Fail the next `count` requests with the given status (0 drops the connection)
+  failNext(count: number, status?: number): void;
+  setLatency(ms: number): void;
+  close(): Promise<void>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Generates a plausible generation curve: zero at night, a bell around midday
+ */
+export function generateMockRecords(
+  serialNumber: string,
+  from: Date,
+  to: Date,
+  { intervalHours = 2, peakEnergy = 4 }: { intervalHours?: number; peakEnergy?: number } = {}
+): DataApiRecord[] {
+  const records: DataApiRecord[] = [];
+  for (let t = from.getTime(); t <= to.getTime(); t += intervalHours * HOUR_MS) {
+    const hour = new Date(t).getUTCHours();
+    const daylight = Math.max(0, Math.sin(((hour - 6) / 12) * Math.PI));
+    records.push({
+      _id: crypto.randomBytes(12).toString("hex"),
+      serialNumber,
+      energyGenerated: parseFloat((peakEnergy * daylight * (0.8 + Math.random() * 0.2)).toFixed(3)),
+      timestamp: new Date(t).toISOString(),
+      intervalHours,
+      __v: 0,
+    });
+  }
+  return records;
+}
+
+export function startMockDataApiServer(
+  { port = 0, records = {} }: { port?: number; records?: Record<string, DataApiRecord[]> } = {}
+): Promise<MockDataApiServer> {
+  const recordsBySerial = new Map<string, DataApiRecord[]>(Object.entries(records));
+  let failures = { remaining: 0, status: 500 };
+  let latencyMs = 0;
+
+  const server = http.createServer(async (req, res) => {
+    mock.requestCount++;
+    const url = new URL(req.url || "/", "http://localhost");
+    const match = url.pathname.match(/^\/api\/energy-generation-records\/solar-unit\/([^/]+)$/);
+
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    }
+
+    if (failures.remaining > 0) {
+      failures.remaining--;
+      if (failures.status === 0) {
+        req.socket.destroy();
+        return;
+      }
+      res.writeHead(failures.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Injected failure" }));
+      return;
+    }
+
+    if (req.method !== "GET" || !match) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: "Not found" }));
+      return;
+    }
+
+    const serialNumber = decodeURIComponent(match[1]);
+    const since = url.searchParams.get("sinceTimestamp");
+    const limit = parseInt(url.searchParams.get("limit") || "0");
+
+    let result = (recordsBySerial.get(serialNumber) || [])
+      .filter((record) => !since || new Date(record.timestamp) > new Date(since))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    if (limit > 0) {
+      result = result.slice(0, limit);
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(result));
+  });
+
+  const mock: MockDataApiServer = {
+    url: "",
+    requestCount: 0,
+    setRecords(serialNumber, records) {
+      recordsBySerial.set(serialNumber, records);
+    },
+    failNext(count, status = 500) {
+      failures = { remaining: count, status };
+    },
+    setLatency(ms) {
+      latencyMs = ms;
+    },
+    close() {
+      // Keep-alive connections from fetch would otherwise hold the server open
+      server.closeAllConnections();
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+
+  return new Promise((resolve) => {
+    server.listen(port, () => {
+      mock.url = `http://localhost:${(server.address() as AddressInfo).port}`;
+      resolve(mock);
+    });
+  });
+}
+
+// `npm run dev:data-api` serves 30 days of generated data for the seeded units
+if (require.main === module) {
+  const to = new Date();
+  const from = new Date(to.getTime() - 30 * 24 * HOUR_MS);
+  const serialNumbers = (process.env.MOCK_DATA_API_SERIALS || "SU-0001,SU-0002,SU-0003").split(",");
+
+  startMockDataApiServer({
+    port: parseInt(process.env.MOCK_DATA_API_PORT || "8001"),
+    records: Object.fromEntries(
+      serialNumbers.map((serialNumber) => [serialNumber, generateMockRecords(serialNumber, from, to)])
+    ),
+  }).then((mock) => {
+    console.log(`Mock Data API listening on ${mock.url} for ${serialNumbers.join(", ")}`);
+  });
+}
@@ -0,0 +1,63 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import { connectDB } from "./db";
+import { EnergyGenerationRecord } from "./entities/EnergyGenerationRecord";
+
+dotenv.config();
+
+/**
+ * One-off migration for databases created before energy generation records were
+ * unique per (solarUnitId, timestamp). The unique index cannot be built while
+ * duplicates exist, so this removes them and then builds the index.
+ *
+ * Of each set of duplicates the most corrected record is kept, or else the first
+ * one stored, matching upserts that leave existing records untouched.
+ *
+ * Run with `npm run migrate:dedupe-energy-records`, then rescan anomalies and
+ * review invoices of the affected units, as their totals may change.
+ */
+
+const DELETE_BATCH_SIZE = 1000;
+
+async function dedupeEnergyRecords() {
+  try {
+    await connectDB();
+
+    const duplicates: { _id: { solarUnitId: mongoose.Types.ObjectId; timestamp: Date }; ids: mongoose.Types.ObjectId[] }[] =
+      await EnergyGenerationRecord.aggregate([
+        { $sort: { correctionVersion: -1, _id: 1 } },
+        {
+          $group: {
+            _id: { solarUnitId: "$solarUnitId", timestamp: "$timestamp" },
+            ids: { $push: "$_id" },
+          },
+        },
+        { $match: { "ids.1": { $exists: true } } },
+      ]).allowDiskUse(true);
+
+    const toDelete = duplicates.reduce(
+      (ids, duplicate) => ids.concat(duplicate.ids.slice(1)),
+      [] as mongoose.Types.ObjectId[]
+    );
+    for (let i = 0; i < toDelete.length; i += DELETE_BATCH_SIZE) {
+      await EnergyGenerationRecord.deleteMany({ _id: { $in: toDelete.slice(i, i + DELETE_BATCH_SIZE) } });
+    }
+
+    const affectedUnits = duplicates
+      .map((duplicate) => duplicate._id.solarUnitId.toString())
+      .filter((id, index, ids) => ids.indexOf(id) === index);
+    console.log(
+      `Removed ${toDelete.length} duplicate energy generation records at ${duplicates.length} timestamps across ${affectedUnits.length} solar units`
+    );
+    affectedUnits.forEach((id) => console.log(`  - ${id}`));
+
+    await EnergyGenerationRecord.createIndexes();
+    console.log("Energy generation record indexes built");
+  } catch (err) {
+    console.error("Deduplication error:", err);
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+dedupeEnergyRecords();
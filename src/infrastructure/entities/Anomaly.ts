@@ -1,5 +1,48 @@
 import mongoose from "mongoose";
 
+// Every type a detector may raise - the detector registry refuses detectors of other types
+export const ANOMALY_TYPES = [
+  "MECHANICAL",
+  "TEMPERATURE",
+  "SHADING",
+  "SENSOR_ERROR",
+  "BELOW_AVERAGE",
+  "DEGRADATION",
+  "DATA_GAP",
+  "CLIPPING",
+  "PEER_UNDERPERFORMANCE",
+] as const;
+
+export const ANOMALY_STATUSES = ["OPEN", "ACKNOWLEDGED", "IN_PROGRESS", "RESOLVED", "FALSE_POSITIVE"] as const;
+
+const statusChangeSchema = new mongoose.Schema(
+  {
+    from: { type: String, enum: ANOMALY_STATUSES, required: true },
+    to: { type: String, enum: ANOMALY_STATUSES, required: true },
+    // Clerk user id of whoever changed the status
+    changedBy: { type: String, required: true },
+    changedAt: { type: Date, default: Date.now },
+    note: { type: String },
+  },
+  { _id: false }
+);
+
+const commentSchema = new mongoose.Schema({
+  authorId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  body: {
+    type: String,
+    required: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
 const anomalySchema = new mongoose.Schema({
   solarUnitId: {
     type: mongoose.Schema.Types.ObjectId,
@@ -9,7 +52,7 @@ const anomalySchema = new mongoose.Schema({
   anomalyType: {
     type: String,
     required: true,
-    enum: ["MECHANICAL", "TEMPERATURE", "SHADING", "SENSOR_ERROR"]
+    enum: ANOMALY_TYPES,
   },
   severity: {
     type: String,
@@ -33,6 +76,14 @@ const anomalySchema = new mongoose.Schema({
     type: String,
     required: true,
   },
+  // Anomalies stored before statuses existed need `npm run migrate:backfill-anomaly-statuses`,
+  // otherwise they load with the OPEN default whatever their resolved flag says
+  status: {
+    type: String,
+    enum: ANOMALY_STATUSES,
+    default: "OPEN",
+  },
+  // Kept in sync with status: true for RESOLVED and FALSE_POSITIVE
   resolved: {
     type: Boolean,
     default: false,
@@ -40,6 +91,29 @@ const anomalySchema = new mongoose.Schema({
   resolvedAt: {
     type: Date,
   },
+  // Clerk user id of whoever resolved the anomaly
+  resolvedBy: {
+    type: String,
+  },
+  resolutionNote: {
+    type: String,
+  },
+  // Staff member working on the anomaly
+  assignedTo: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  assignedAt: {
+    type: Date,
+  },
+  statusHistory: {
+    type: [statusChangeSchema],
+    default: [],
+  },
+  comments: {
+    type: [commentSchema],
+    default: [],
+  },
   metadata: {
     type: mongoose.Schema.Types.Mixed,
     default: {},
@@ -48,7 +122,11 @@ const anomalySchema = new mongoose.Schema({
 
 // Index for efficient queries
 anomalySchema.index({ solarUnitId: 1, detectionTimestamp: -1 });
+// Detection looks up anomalies of the same type overlapping a detected period
+anomalySchema.index({ solarUnitId: 1, anomalyType: 1, affectedStartDate: 1 });
 anomalySchema.index({ resolved: 1 });
+anomalySchema.index({ status: 1, anomalyType: 1 });
+anomalySchema.index({ assignedTo: 1, status: 1 });
 anomalySchema.index({ severity: 1 });
 anomalySchema.index({ anomalyType: 1 });
 
@@ -0,0 +1,36 @@
+import mongoose from "mongoose";
+
+// One FLEET document holding the fleet defaults, plus one UNIT document per overridden solar unit
+const detectionConfigSchema = new mongoose.Schema({
+  scope: {
+    type: String,
+    required: true,
+    enum: ["FLEET", "UNIT"],
+  },
+  solarUnitId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "SolarUnit",
+  },
+  // Complete thresholds for FLEET, only the overridden values for UNIT
+  thresholds: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+  // Incremented on every change and recorded on the anomalies it produces
+  version: {
+    type: Number,
+    default: 1,
+  },
+  // Clerk user id of the admin who last changed the config
+  updatedBy: {
+    type: String,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+detectionConfigSchema.index({ scope: 1, solarUnitId: 1 }, { unique: true });
+
+export const DetectionConfig = mongoose.model("DetectionConfig", detectionConfigSchema);
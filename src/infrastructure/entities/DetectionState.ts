@@ -0,0 +1,36 @@
+import mongoose from "mongoose";
+
+const detectionStateSchema = new mongoose.Schema(
+  {
+    solarUnitId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "SolarUnit",
+      required: true,
+      unique: true,
+    },
+    // Timestamp of the latest record anomaly detection has analyzed
+    watermark: {
+      type: Date,
+    },
+    // Earliest timestamp of records written or corrected behind the watermark (late
+    // data, backfills, corrections) - the next incremental run reports from its day
+    dirtyFrom: {
+      type: Date,
+    },
+    // Lease held by the detection run in progress, so runs for a unit never overlap
+    runningUntil: {
+      type: Date,
+    },
+    lastRunAt: {
+      type: Date,
+    },
+    lastFullScanAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const DetectionState = mongoose.model("DetectionState", detectionStateSchema);
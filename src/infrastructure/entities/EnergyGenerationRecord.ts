@@ -20,8 +20,33 @@ const energyGenerationRecordSchema = new mongoose.Schema({
     min: 0.1,
     max: 24,
   },
+  // Set by admin corrections - energyGenerated then holds the corrected value
+  corrected: {
+    type: Boolean,
+    default: false,
+  },
+  // Excluded records are kept for the audit trail but ignored by aggregations, detection and invoicing
+  excluded: {
+    type: Boolean,
+    default: false,
+  },
+  // Value as received from the device, kept once the record has been corrected
+  originalEnergyGenerated: {
+    type: Number,
+  },
+  correctionVersion: {
+    type: Number,
+    default: 0,
+  },
+  note: {
+    type: String,
+  },
 });
 
+// One record per unit and timestamp - also serves time range queries and cursor pagination
+// Databases holding duplicates from before this index need `npm run migrate:dedupe-energy-records` first
+energyGenerationRecordSchema.index({ solarUnitId: 1, timestamp: 1 }, { unique: true });
+
 export const EnergyGenerationRecord = mongoose.model(
   "EnergyGenerationRecord",
   energyGenerationRecordSchema
@@ -0,0 +1,62 @@
+import mongoose from "mongoose";
+
+const correctionValuesSchema = new mongoose.Schema(
+  {
+    energyGenerated: { type: Number, required: true },
+    excluded: { type: Boolean, required: true },
+    note: { type: String },
+  },
+  { _id: false }
+);
+
+// One document per change to an energy generation record, never updated or deleted
+const energyRecordCorrectionSchema = new mongoose.Schema({
+  recordId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "EnergyGenerationRecord",
+    required: true,
+  },
+  solarUnitId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "SolarUnit",
+    required: true,
+  },
+  version: {
+    type: Number,
+    required: true,
+  },
+  action: {
+    type: String,
+    required: true,
+    enum: ["OVERRIDE", "EXCLUDE", "INCLUDE", "ANNOTATE", "REVERT"],
+  },
+  previous: {
+    type: correctionValuesSchema,
+    required: true,
+  },
+  current: {
+    type: correctionValuesSchema,
+    required: true,
+  },
+  reason: {
+    type: String,
+    required: true,
+  },
+  // Clerk user id of the admin who made the change
+  correctedBy: {
+    type: String,
+    required: true,
+  },
+  correctedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+energyRecordCorrectionSchema.index({ recordId: 1, version: 1 }, { unique: true });
+energyRecordCorrectionSchema.index({ solarUnitId: 1, correctedAt: -1 });
+
+export const EnergyRecordCorrection = mongoose.model(
+  "EnergyRecordCorrection",
+  energyRecordCorrectionSchema
+);
@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+
+const forecastSchema = new mongoose.Schema(
+  {
+    solarUnitId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "SolarUnit",
+      required: true,
+    },
+    // Day the forecast was issued (UTC midnight)
+    issuedFor: {
+      type: Date,
+      required: true,
+    },
+    // Day being predicted (UTC midnight)
+    forecastDate: {
+      type: Date,
+      required: true,
+    },
+    horizonDays: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    predictedEnergy: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    lower80: { type: Number, required: true },
+    upper80: { type: Number, required: true },
+    lower95: { type: Number, required: true },
+    upper95: { type: Number, required: true },
+    method: {
+      type: String,
+      required: true,
+      enum: ["SEASONAL", "TREND"],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One forecast per unit, issue day and predicted day - re-forecasting the same day overwrites it
+forecastSchema.index({ solarUnitId: 1, issuedFor: 1, forecastDate: 1 }, { unique: true });
+forecastSchema.index({ solarUnitId: 1, forecastDate: 1 });
+
+export const Forecast = mongoose.model("Forecast", forecastSchema);
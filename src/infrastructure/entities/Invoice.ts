@@ -35,6 +35,18 @@ const invoiceSchema = new mongoose.Schema(
       type: Date,
       default: null,
     },
+    // Set when a backfill changes the energy total this invoice was billed on
+    reviewFlag: {
+      flaggedAt: Date,
+      recomputedEnergyGenerated: Number,
+      reason: String,
+    },
+    environmentalImpact: {
+      emissionFactor: Number, // kg CO2/kWh
+      co2AvoidedKg: Number,
+      treesPlanted: Number,
+      carKmAvoided: Number,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,68 @@
+import mongoose from "mongoose";
+
+const notificationDeliverySchema = new mongoose.Schema(
+  {
+    anomalyId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Anomaly",
+    },
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    channel: {
+      type: String,
+      required: true,
+      enum: ["EMAIL", "WEBHOOK"],
+    },
+    event: {
+      type: String,
+      required: true,
+      enum: ["CREATED", "ESCALATED", "TEST"],
+    },
+    // Email address or webhook URL at the time of sending
+    target: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      required: true,
+      enum: ["PENDING", "RETRYING", "DELIVERED", "FAILED"],
+      default: "PENDING",
+    },
+    payload: {
+      type: mongoose.Schema.Types.Mixed,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    responseStatus: {
+      type: Number,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+notificationDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+notificationDeliverySchema.index({ userId: 1, createdAt: -1 });
+notificationDeliverySchema.index({ anomalyId: 1 });
+
+export const NotificationDelivery = mongoose.model(
+  "NotificationDelivery",
+  notificationDeliverySchema
+);
@@ -0,0 +1,44 @@
+import mongoose from "mongoose";
+
+const SEVERITIES = ["CRITICAL", "WARNING", "INFO"];
+
+const notificationPreferenceSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      unique: true,
+    },
+    email: {
+      enabled: { type: Boolean, default: true },
+      // Lowest severity that triggers an email
+      minSeverity: { type: String, enum: SEVERITIES, default: "CRITICAL" },
+    },
+    webhook: {
+      enabled: { type: Boolean, default: false },
+      url: { type: String },
+      // HMAC key for the signature header - only returned when generated or rotated
+      secret: { type: String, select: false },
+      minSeverity: { type: String, enum: SEVERITIES, default: "WARNING" },
+    },
+    // Empty means every anomaly type
+    anomalyTypes: {
+      type: [String],
+      default: [],
+    },
+    // Staff only: receive notifications for every unit, not just their own
+    allUnits: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const NotificationPreference = mongoose.model(
+  "NotificationPreference",
+  notificationPreferenceSchema
+);
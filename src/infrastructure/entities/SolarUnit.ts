@@ -24,6 +24,22 @@ const solarUnitSchema = new mongoose.Schema({
     required: true,
     enum: ["ACTIVE", "INACTIVE", "MAINTENANCE"],
   },
+  // SHA-256 hash of the device API key used for telemetry ingestion
+  apiKeyHash: {
+    type: String,
+    select: false,
+  },
+  apiKeyCreatedAt: {
+    type: Date,
+  },
+  // Electricity grid region, used to look up the grid emission factor
+  region: {
+    type: String,
+  },
+  location: {
+    latitude: { type: Number, min: -90, max: 90 },
+    longitude: { type: Number, min: -180, max: 180 },
+  },
 });
 
 export const SolarUnit = mongoose.model("SolarUnit", solarUnitSchema);
\ No newline at end of file
@@ -0,0 +1,88 @@
+import mongoose from "mongoose";
+
+const syncRunUnitSchema = new mongoose.Schema(
+  {
+    solarUnitId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "SolarUnit",
+      required: true,
+    },
+    serialNumber: {
+      type: String,
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    finishedAt: {
+      type: Date,
+      required: true,
+    },
+    fetched: { type: Number, default: 0 },
+    inserted: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    error: {
+      type: String,
+    },
+    // Set when the records were stored but anomaly detection on them failed
+    detectionError: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+const syncRunSchema = new mongoose.Schema({
+  trigger: {
+    type: String,
+    required: true,
+    enum: ["CRON", "USER", "MANUAL", "BACKFILL"],
+  },
+  // Clerk user id of whoever caused a USER, MANUAL or BACKFILL run
+  triggeredBy: {
+    type: String,
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ["RUNNING", "SUCCEEDED", "PARTIAL", "FAILED"],
+    default: "RUNNING",
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  finishedAt: {
+    type: Date,
+  },
+  units: {
+    type: [syncRunUnitSchema],
+    default: [],
+  },
+  totals: {
+    fetched: { type: Number, default: 0 },
+    inserted: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    failedUnits: { type: Number, default: 0 },
+  },
+  // Set on BACKFILL runs: the requested window and, once finished, the backfill report
+  backfill: {
+    type: new mongoose.Schema(
+      {
+        from: { type: Date, required: true },
+        to: { type: Date, required: true },
+        mode: { type: String, required: true, enum: ["merge", "replace"] },
+        dryRun: { type: Boolean, default: false },
+        report: { type: mongoose.Schema.Types.Mixed },
+      },
+      { _id: false }
+    ),
+  },
+});
+
+// Index for efficient queries
+syncRunSchema.index({ startedAt: -1 });
+syncRunSchema.index({ "units.solarUnitId": 1, startedAt: -1 });
+
+export const SyncRun = mongoose.model("SyncRun", syncRunSchema);
@@ -0,0 +1,38 @@
+import mongoose from "mongoose";
+
+const syncStateSchema = new mongoose.Schema(
+  {
+    solarUnitId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "SolarUnit",
+      required: true,
+      unique: true,
+    },
+    // Timestamp of the latest record synced from the data API
+    cursor: {
+      type: Date,
+    },
+    lastAttemptAt: {
+      type: Date,
+    },
+    lastSuccessAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    consecutiveFailures: {
+      type: Number,
+      default: 0,
+    },
+    // Lease held while a sync or backfill writes the unit's records, so they never run at the same time
+    runningUntil: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const SyncState = mongoose.model("SyncState", syncStateSchema);
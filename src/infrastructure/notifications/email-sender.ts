@@ -0,0 +1,60 @@
+import nodemailer, { Transporter } from "nodemailer";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailSender {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpEmailSenderOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Sends email through any SMTP server (a provider relay, or a local sink in development)
+ */
+export class SmtpEmailSender implements EmailSender {
+  private readonly transporter: Transporter;
+
+  constructor(private readonly options: SmtpEmailSenderOptions) {
+    const timeoutMs = options.timeoutMs ?? 10000;
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? false,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  /**
+   * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and NOTIFICATION_EMAIL_FROM
+   */
+  static fromEnv(): SmtpEmailSender {
+    return new SmtpEmailSender({
+      host: process.env.SMTP_HOST || "localhost",
+      port: parseInt(process.env.SMTP_PORT || "2525"),
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.NOTIFICATION_EMAIL_FROM || "alerts@solar.local",
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.options.from, ...message });
+  }
+}
@@ -0,0 +1,198 @@
+import http from "http";
+import net from "net";
+import { AddressInfo } from "net";
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER } from "./webhook-sender";
+
+/**
+ * Local stand-ins for the notification channels
+ * An SMTP sink that accepts and keeps every message, and an HTTP receiver that
+ * records webhook calls and checks their signatures, so notifications can be
+ * exercised end to end without a mail provider or a customer endpoint.
+ */
+
+export interface ReceivedEmail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+export interface SmtpSink {
+  port: number;
+  messages: ReceivedEmail[];
+  close(): Promise<void>;
+}
+
+/**
+ * Minimal SMTP server: no TLS, no auth, accepts everything
+ */
+export function startSmtpSink({ port = 0 }: { port?: number } = {}): Promise<SmtpSink> {
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on("close", () => sockets.delete(socket));
+    socket.setEncoding("utf8");
+
+    let buffer = "";
+    let inData = false;
+    let current: ReceivedEmail = { from: "", to: [], data: "" };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply("220 localhost SMTP sink ready");
+
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+
+      while (buffer.length > 0) {
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end === -1) return;
+          current.data = buffer.slice(0, end).replace(/^\.\./gm, ".");
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          sink.messages.push(current);
+          current = { from: "", to: [], data: "" };
+          reply("250 OK: queued");
+          continue;
+        }
+
+        const newline = buffer.indexOf("\r\n");
+        if (newline === -1) return;
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === "EHLO") {
+          reply("250-localhost");
+          reply("250 8BITMIME");
+        } else if (command === "HELO" || command === "RSET" || command === "NOOP") {
+          if (command === "RSET") current = { from: "", to: [], data: "" };
+          reply("250 OK");
+        } else if (command === "MAIL") {
+          current.from = line.replace(/^MAIL FROM:\s*/i, "").replace(/[<>]/g, "").split(" ")[0];
+          reply("250 OK");
+        } else if (command === "RCPT") {
+          current.to.push(line.replace(/^RCPT TO:\s*/i, "").replace(/[<>]/g, "").split(" ")[0]);
+          reply("250 OK");
+        } else if (command === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (command === "QUIT") {
+          reply("221 Bye");
+          socket.end();
+        } else {
+          reply("502 Command not implemented");
+        }
+      }
+    });
+  });
+
+  const sink: SmtpSink = {
+    port: 0,
+    messages: [],
+    close() {
+      sockets.forEach((socket) => socket.destroy());
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+
+  return new Promise((resolve) => {
+    server.listen(port, () => {
+      sink.port = (server.address() as AddressInfo).port;
+      resolve(sink);
+    });
+  });
+}
+
+export interface ReceivedWebhook {
+  path: string;
+  body: string;
+  signature?: string;
+  // Null when the receiver was started without a secret
+  verified: boolean | null;
+}
+
+export interface WebhookReceiver {
+  url: string;
+  requests: ReceivedWebhook[];
+  // Respond to the next `count` requests with the given status
+  failNext(count: number, status?: number): void;
+  close(): Promise<void>;
+}
+
+export function startWebhookReceiver(
+  { port = 0, secret }: { port?: number; secret?: string } = {}
+): Promise<WebhookReceiver> {
+  let failures = { remaining: 0, status: 500 };
+
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const signature = req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] as string | undefined;
+      receiver.requests.push({
+        path: req.url || "/",
+        body,
+        signature,
+        verified: secret ? verifyWebhookSignature(secret, body, signature) : null,
+      });
+
+      if (failures.remaining > 0) {
+        failures.remaining--;
+        res.writeHead(failures.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ message: "Injected failure" }));
+        return;
+      }
+
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ received: true }));
+    });
+  });
+
+  const receiver: WebhookReceiver = {
+    url: "",
+    requests: [],
+    failNext(count, status = 500) {
+      failures = { remaining: count, status };
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+
+  return new Promise((resolve) => {
+    server.listen(port, () => {
+      receiver.url = `http://localhost:${(server.address() as AddressInfo).port}`;
+      resolve(receiver);
+    });
+  });
+}
+
+// `npm run dev:notification-sinks` logs every email and webhook the app sends
+// The receiver runs on localhost, so the app needs WEBHOOK_ALLOW_PRIVATE_URLS=true to call it
+if (require.main === module) {
+  const secret = process.env.WEBHOOK_SINK_SECRET;
+
+  Promise.all([
+    startSmtpSink({ port: parseInt(process.env.SMTP_SINK_PORT || "2525") }),
+    startWebhookReceiver({ port: parseInt(process.env.WEBHOOK_SINK_PORT || "8002"), secret }),
+  ]).then(([smtp, webhooks]) => {
+    console.log(`SMTP sink listening on port ${smtp.port}`);
+    console.log(`Webhook receiver listening on ${webhooks.url}${secret ? " (verifying signatures)" : ""}`);
+
+    let seenEmails = 0;
+    let seenWebhooks = 0;
+    setInterval(() => {
+      smtp.messages.slice(seenEmails).forEach((message) =>
+        console.log(`[email] ${message.from} -> ${message.to.join(", ")}\n${message.data}\n`)
+      );
+      webhooks.requests.slice(seenWebhooks).forEach((request) =>
+        console.log(`[webhook] ${request.path} verified=${request.verified}\n${request.body}\n`)
+      );
+      seenEmails = smtp.messages.length;
+      seenWebhooks = webhooks.requests.length;
+    }, 500);
+  });
+}
@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import dns from "dns/promises";
+import net from "net";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Solar-Signature";
+
+export class WebhookDeliveryError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = "WebhookDeliveryError";
+  }
+}
+
+/**
+ * Signature header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ * Receivers recompute the HMAC with their secret and reject stale timestamps
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Checks a signature header against the body, allowing the given clock skew
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | undefined,
+  toleranceSeconds = 300
+): boolean {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(",").map((part) => part.split("=") as [string, string]));
+  const timestamp = parseInt(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = signWebhookPayload(secret, body, timestamp).split("v1=")[1];
+  const received = Buffer.from(parts.v1, "hex");
+  return received.length === expected.length / 2 && crypto.timingSafeEqual(received, Buffer.from(expected, "hex"));
+}
+
+// Loopback, private, link-local (incl. cloud metadata), shared, reserved and multicast ranges
+const NON_PUBLIC_RANGES = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => NON_PUBLIC_RANGES.addSubnet(network as string, prefix as number, "ipv6"));
+
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 ranges by the BlockList
+const isPublicAddress = (address: string) =>
+  !NON_PUBLIC_RANGES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+
+/**
+ * Rejects webhook URLs whose host resolves to a non-public address, so webhooks
+ * cannot be pointed at the server itself or services inside its network.
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true lifts the check for local development.
+ */
+export async function assertPublicWebhookUrl(url: string) {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true") return;
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: { address: string }[];
+  try {
+    addresses = net.isIP(host) ? [{ address: host }] : await dns.lookup(host, { all: true, verbatim: true });
+  } catch (error) {
+    throw new WebhookDeliveryError(`Webhook host ${host} could not be resolved`);
+  }
+
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new WebhookDeliveryError(`Webhook host ${host} resolves to a non-public address (${blocked.address})`);
+  }
+}
+
+/**
+ * POSTs a signed JSON payload, failing on timeouts and non-2xx responses
+ * The host is checked on every send, as its DNS records may have changed since it was saved
+ * @returns the response status
+ */
+export async function sendSignedWebhook(
+  url: string,
+  secret: string,
+  payload: unknown,
+  { timeoutMs = 10000 }: { timeoutMs?: number } = {}
+): Promise<number> {
+  await assertPublicWebhookUrl(url);
+  const body = JSON.stringify(payload);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, body),
+      },
+      body,
+      // Redirects are not followed, they could lead to an internal address
+      redirect: "manual",
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new WebhookDeliveryError(`Webhook request failed: ${(error as Error).message}`);
+  }
+
+  if (!response.ok) {
+    throw new WebhookDeliveryError(`Webhook responded with ${response.status}`, response.status);
+  }
+  return response.status;
+}
@@ -2,6 +2,7 @@ import cron from 'node-cron';
 import { syncEnergyGenerationRecords } from '../application/background/sync-energy-generation-records';
 import { runAnomalyDetection } from '../application/background/detect-anomalies';
 import { generateInvoices } from '../application/background/generate-invoices';
+import { deliverNotifications } from '../application/background/deliver-notifications';
 
 export const initializeScheduler = () => {
   // Run daily at 00:00 (midnight) - cron expression: '0 0 * * *'
@@ -34,6 +35,14 @@ export const initializeScheduler = () => {
     }
   });
 
+  // Send queued and retry failed notification deliveries every minute - cron expression: '* * * * *'
+  const notificationRetrySchedule = process.env.NOTIFICATION_RETRY_CRON_SCHEDULE || '* * * * *';
+
+  cron.schedule(notificationRetrySchedule, async () => {
+    await deliverNotifications();
+  });
+
   console.log(`[Scheduler] Energy generation records sync scheduled for: ${schedule}`);
   console.log(`[Scheduler] Invoice generation scheduled for: ${invoiceSchedule}`);
+  console.log(`[Scheduler] Notification deliveries scheduled for: ${notificationRetrySchedule}`);
 };
\ No newline at end of file
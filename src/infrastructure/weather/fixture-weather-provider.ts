@@ -0,0 +1,29 @@
+import fs from "fs";
+import path from "path";
+import { DailyWeather, WeatherLocation, WeatherProvider } from "./weather-provider";
+
+/**
+ * Weather provider that serves a fixed set of days from memory or a JSON file
+ * Used for offline development and tests - the location is ignored
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  name = "fixture";
+
+  constructor(private readonly days: DailyWeather[]) {}
+
+  // Resolved next to this module, so it works from src and from dist (the build copies the fixtures)
+  static fromFile(
+    filePath: string = path.join(__dirname, "fixtures", "daily-weather.json")
+  ): FixtureWeatherProvider {
+    const days: DailyWeather[] = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return new FixtureWeatherProvider(days);
+  }
+
+  async getDailyWeather(
+    location: WeatherLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[]> {
+    return this.days.filter((day) => day.date >= startDate && day.date <= endDate);
+  }
+}
@@ -0,0 +1,61 @@
+import { fetchWeatherApi } from "openmeteo";
+import { DailyWeather, WeatherLocation, WeatherProvider } from "./weather-provider";
+
+// Open-Meteo reports shortwave radiation sums in MJ/m²
+const MJ_PER_KWH = 3.6;
+
+/**
+ * Weather provider backed by the Open-Meteo API
+ */
+export class OpenMeteoWeatherProvider implements WeatherProvider {
+  name = "open-meteo";
+
+  constructor(
+    private readonly url: string = process.env.OPEN_METEO_URL ||
+      "https://api.open-meteo.com/v1/forecast"
+  ) {}
+
+  async getDailyWeather(
+    location: WeatherLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[]> {
+    const params = {
+      latitude: [location.latitude],
+      longitude: [location.longitude],
+      // The order of these variables must match the indices used below
+      daily: "shortwave_radiation_sum,temperature_2m_mean,temperature_2m_max",
+      start_date: startDate,
+      end_date: endDate,
+      timezone: "GMT",
+    };
+
+    const [response] = await fetchWeatherApi(this.url, params);
+    const daily = response?.daily();
+    if (!daily) {
+      return [];
+    }
+
+    const start = Number(daily.time());
+    const end = Number(daily.timeEnd());
+    const interval = daily.interval();
+    const radiation = daily.variables(0)!.valuesArray()!;
+    const temperatureMean = daily.variables(1)!.valuesArray()!;
+    const temperatureMax = daily.variables(2)!.valuesArray()!;
+
+    const days: DailyWeather[] = [];
+    for (let t = start, i = 0; t < end; t += interval, i++) {
+      // Open-Meteo returns NaN for days it has no data for yet
+      if (Number.isNaN(radiation[i])) continue;
+
+      days.push({
+        date: new Date(t * 1000).toISOString().slice(0, 10),
+        irradiation: radiation[i] / MJ_PER_KWH,
+        temperatureMean: temperatureMean[i],
+        temperatureMax: temperatureMax[i],
+      });
+    }
+
+    return days;
+  }
+}
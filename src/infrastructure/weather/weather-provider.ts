@@ -0,0 +1,28 @@
+/**
+ * Daily weather observation for a single location
+ * Irradiation is the global horizontal irradiation summed over the day
+ */
+export interface DailyWeather {
+  date: string; // YYYY-MM-DD (UTC)
+  irradiation: number; // kWh/m²
+  temperatureMean: number; // °C
+  temperatureMax: number; // °C
+}
+
+export interface WeatherLocation {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * A source of daily weather data
+ * Implementations must return one entry per available day in [startDate, endDate]
+ */
+export interface WeatherProvider {
+  name: string;
+  getDailyWeather(
+    location: WeatherLocation,
+    startDate: string,
+    endDate: string
+  ): Promise<DailyWeather[]>;
+}